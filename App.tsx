@@ -1,12 +1,34 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Upload, Play, Pause, Download, Languages, Save, RefreshCw, Wand2, FileVideo, Film, Palette, FileText, Settings, X, Key, FolderDown, FolderUp } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { Upload, Play, Pause, Download, Languages, Save, RefreshCw, Wand2, FileVideo, Film, Palette, FileText, Settings, X, Key, FolderDown, FolderUp, AudioLines, BookA } from 'lucide-react';
 import VideoPlayer from './components/VideoPlayer';
 import SubtitleEditor from './components/SubtitleEditor';
-import StyleControls from './components/StyleControls';
-import { SubtitleCue, SubtitleStyle, VideoState, Project } from './types';
-import { transcribeVideo, translateSubtitles } from './services/geminiService';
-import { generateSRT, downloadFile, formatSRTTime, parseSRT } from './utils/srtParser';
+import StyleControls, { StyleTarget } from './components/StyleControls';
+import ImportReportDialog from './components/ImportReportDialog';
+import WaveformTimeline from './components/WaveformTimeline';
+import FindReplacePanel from './components/FindReplacePanel';
+import ResyncDialog from './components/ResyncDialog';
+import QualityPanel from './components/QualityPanel';
+import SpeakerPanel from './components/SpeakerPanel';
+import TrackSwitcher from './components/TrackSwitcher';
+import GlossaryDialog from './components/GlossaryDialog';
+import ExportDialog from './components/ExportDialog';
+import { SubtitleCue, SubtitleStyle, SubtitleTrack, Glossary, VideoState, Project, VTTHeader, SubtitleFormat, ParseReport, QCProfile, TranscriptionSource, ProviderSettings, ProviderKind, ExportSettings } from './types';
+import { createProvider, getProviderSetupError, DEFAULT_PROVIDER_SETTINGS, PROVIDER_LABELS } from './services/providers';
+import { describeError, isCancelled } from './services/errors';
+import { generateSRT, downloadFile, formatSRTTime, parseSRTWithDiagnostics } from './utils/srtParser';
+import { parseASS, generateASS } from './utils/assParser';
+import { parseVTT, generateVTT } from './utils/vttParser';
+import { parseTTML, generateTTML } from './utils/ttmlParser';
+import { parseSBV, generateSBV } from './utils/sbvParser';
+import { splitCueInList, mergeCuesInList } from './utils/cueOperations';
+import { QC_PROFILES, runQualityCheck, groupIssuesByCue } from './utils/qualityCheck';
+import { resolveSpeakerColors, renameSpeaker, renameSpeakerColor } from './utils/speakers';
+import { syncCueWords } from './utils/wordTimings';
+import { EMPTY_GLOSSARY, checkGlossary } from './utils/glossary';
+import { DEFAULT_TRACK_NAME, createTrack, updateTrack, updateTrackCues, linkTrackTiming, removeTrack, timingRoot, trackFileName, projectTracks } from './utils/tracks';
 import { burnSubtitles } from './utils/videoProcessor';
+import { DEFAULT_EXPORT_SETTINGS, exportFileName } from './utils/exportSettings';
+import { DEFAULT_REFRAME, setFocusAt } from './utils/reframe';
 
 const DEFAULT_STYLE: SubtitleStyle = {
   fontSize: 24,
@@ -18,6 +40,13 @@ const DEFAULT_STYLE: SubtitleStyle = {
   opacity: 1,
 };
 
+// Dual-subtitle mode: the second track is smaller and tinted so the two read apart
+const DEFAULT_SECONDARY_STYLE: SubtitleStyle = {
+  ...DEFAULT_STYLE,
+  fontSize: 20,
+  color: '#fde047',
+};
+
 const SAMPLE_LANGUAGES = [
   { code: 'vi', name: 'Vietnamese' },
   { code: 'es', name: 'Spanish' },
@@ -29,6 +58,18 @@ const SAMPLE_LANGUAGES = [
   { code: 'en', name: 'English' },
 ];
 
+const EXPORT_FORMATS: { format: SubtitleFormat; label: string }[] = [
+  { format: 'srt', label: 'SRT' },
+  { format: 'vtt', label: 'VTT' },
+  { format: 'ass', label: 'ASS' },
+  { format: 'ssa', label: 'SSA' },
+  { format: 'ttml', label: 'TTML' },
+  { format: 'dfxp', label: 'DFXP' },
+  { format: 'sbv', label: 'SBV' },
+];
+
+const SUBTITLE_FILE_ACCEPT = '.srt,.vtt,.ass,.ssa,.ttml,.dfxp,.xml,.sbv,.json';
+
 const TRANSLATION_STYLES = [
     'Standard',
     'Professional',
@@ -47,22 +88,64 @@ export default function App() {
     currentTime: 0,
     isPlaying: false,
     aspectRatio: '16:9',
+    reframe: DEFAULT_REFRAME,
   });
 
-  const [cues, setCues] = useState<SubtitleCue[]>([]);
-  // History State
-  const [history, setHistory] = useState<{ past: SubtitleCue[][], future: SubtitleCue[][] }>({ past: [], future: [] });
+  // Subtitle tracks of the project; the active one is what the editor, QC and exports work on
+  const [tracks, setTracks] = useState<SubtitleTrack[]>(() => [createTrack(DEFAULT_TRACK_NAME)]);
+  const [activeTrackId, setActiveTrackId] = useState('');
+  // History State: snapshots of every track, so track edits undo together with cue edits
+  const [history, setHistory] = useState<{ past: SubtitleTrack[][], future: SubtitleTrack[][] }>({ past: [], future: [] });
   
   const [style, setStyle] = useState<SubtitleStyle>(DEFAULT_STYLE);
+  // Dual-subtitle mode: a second track shown above the active one with its own style
+  const [secondaryTrackId, setSecondaryTrackId] = useState<string | null>(null);
+  const [secondaryStyle, setSecondaryStyle] = useState<SubtitleStyle>(DEFAULT_SECONDARY_STYLE);
+  const [styleTarget, setStyleTarget] = useState<StyleTarget>('primary');
+  // Project vocabulary for the AI steps and the glossary check
+  const [glossary, setGlossary] = useState<Glossary>(EMPTY_GLOSSARY);
+  const [showGlossary, setShowGlossary] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progressMsg, setProgressMsg] = useState('');
-  const [activeTab, setActiveTab] = useState<'editor' | 'styles'>('editor');
+  // Set while an AI job runs, so the overlay can offer to cancel it
+  const jobRef = useRef<AbortController | null>(null);
+  const [activeTab, setActiveTab] = useState<'editor' | 'styles' | 'qc' | 'speakers'>('editor');
   const [translationStyle, setTranslationStyle] = useState('Standard');
-  const [apiKey, setApiKey] = useState('');
+  const [transcriptionSource, setTranscriptionSource] = useState<TranscriptionSource>('audio');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
   const [showSettings, setShowSettings] = useState(false);
+  const [showFind, setShowFind] = useState(false);
+  const [showResync, setShowResync] = useState(false);
+  // SRT import that needs review because the parser had to skip or repair blocks
+  const [importReport, setImportReport] = useState<{ fileName: string; report: ParseReport } | null>(null);
+  // Quality-control profile selection and user-defined profiles
+  const [qcProfileId, setQcProfileId] = useState(QC_PROFILES[0].id);
+  const [customProfiles, setCustomProfiles] = useState<QCProfile[]>([]);
   
   // Specific state for burn-in process
   const [burnProgress, setBurnProgress] = useState(0);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [showExport, setShowExport] = useState(false);
+
+  // Falls back to the first track when the active one was deleted or undone away
+  const activeTrack = tracks.find(t => t.id === activeTrackId) || tracks[0];
+  const cues = activeTrack.cues;
+  // Header/STYLE/REGION blocks of an imported WebVTT file, written back on VTT export
+  const vttHeader = activeTrack.vttHeader || null;
+  const secondaryTrack = tracks.find(t => t.id === secondaryTrackId && t.id !== activeTrack.id) || null;
+  const editingSecondaryStyle = !!secondaryTrack && styleTarget === 'secondary';
+
+  // Helper to restore tracks and styles from a saved or imported project
+  const applyProject = (project: Project) => {
+    const restored = projectTracks(project);
+    setTracks(restored.tracks);
+    setActiveTrackId(restored.activeTrackId);
+    setStyle(project.style);
+    setSecondaryTrackId(project.secondaryTrackId || null);
+    setSecondaryStyle(project.secondaryStyle || DEFAULT_SECONDARY_STYLE);
+    setGlossary(project.glossary || EMPTY_GLOSSARY);
+    setHistory({ past: [], future: [] });
+  };
 
   // Load project from local storage on mount
   useEffect(() => {
@@ -71,38 +154,137 @@ export default function App() {
       try {
         const project: Project = JSON.parse(saved);
         // Note: we can't restore the blob URL, so user has to re-upload video, 
-        // but we can restore cues and styles.
-        setCues(project.cues);
-        setStyle(project.style);
-        setHistory({ past: [], future: [] }); // Reset history on load
+        // but we can restore tracks and styles.
+        applyProject(project);
         console.log("Restored project state");
       } catch (e) {
         console.error("Failed to restore project", e);
       }
     }
     
-    // Load API Key
-    const savedKey = localStorage.getItem('geminiApiKey');
-    if (savedKey) {
-        setApiKey(savedKey);
-    } else if (process.env.API_KEY) {
-        setApiKey(process.env.API_KEY);
+    // Load provider settings, falling back to the standalone Gemini key saved by older versions
+    const savedProvider = localStorage.getItem('providerSettings');
+    const savedKey = localStorage.getItem('geminiApiKey') || process.env.API_KEY || '';
+    try {
+        const parsed: Partial<ProviderSettings> = savedProvider ? JSON.parse(savedProvider) : {};
+        setProviderSettings({
+            provider: parsed.provider || DEFAULT_PROVIDER_SETTINGS.provider,
+            gemini: { ...DEFAULT_PROVIDER_SETTINGS.gemini, apiKey: savedKey, ...parsed.gemini },
+            openai: { ...DEFAULT_PROVIDER_SETTINGS.openai, ...parsed.openai },
+        });
+    } catch (e) {
+        console.error("Failed to restore provider settings", e);
+    }
+
+    // Load QC profiles
+    const savedProfiles = localStorage.getItem('qcCustomProfiles');
+    if (savedProfiles) {
+      try {
+        setCustomProfiles(JSON.parse(savedProfiles));
+      } catch (e) {
+        console.error("Failed to restore QC profiles", e);
+      }
+    }
+    const savedProfileId = localStorage.getItem('qcProfileId');
+    if (savedProfileId) setQcProfileId(savedProfileId);
+
+    // Load export settings
+    const savedExport = localStorage.getItem('exportSettings');
+    if (savedExport) {
+      try {
+        setExportSettings({ ...DEFAULT_EXPORT_SETTINGS, ...JSON.parse(savedExport) });
+      } catch (e) {
+        console.error("Failed to restore export settings", e);
+      }
     }
   }, []);
 
-  // Centralized function to update cues and manage history
-  const handleCuesChange = useCallback((newCues: SubtitleCue[]) => {
+  const qcProfiles = useMemo(() => [...QC_PROFILES, ...customProfiles], [customProfiles]);
+  const qcProfile = qcProfiles.find(p => p.id === qcProfileId) || QC_PROFILES[0];
+  // Cues of the track the active one was translated from, for the do-not-translate and forced-term checks
+  const sourceCues = tracks.find(t => t.id === activeTrack.timingSource)?.cues;
+  const qcIssues = useMemo(
+    () => [...runQualityCheck(cues, qcProfile), ...checkGlossary(cues, glossary, sourceCues, activeTrack.language)],
+    [cues, qcProfile, glossary, sourceCues, activeTrack.language]
+  );
+  const qcIssuesByCue = useMemo(() => groupIssuesByCue(qcIssues), [qcIssues]);
+
+  const speakerColors = useMemo(() => resolveSpeakerColors(cues, style), [cues, style]);
+
+  // Renaming onto an existing speaker merges the two, in every track since they share speaker colours;
+  // one undo step for the cues
+  const handleRenameSpeaker = (from: string, to: string) => {
+    handleTracksChange(tracks.map(track => ({ ...track, cues: renameSpeaker(track.cues, from, to) })));
+    setStyle(renameSpeakerColor(style, speakerColors, from, to));
+  };
+
+  const handleSelectQcProfile = (id: string) => {
+    setQcProfileId(id);
+    localStorage.setItem('qcProfileId', id);
+  };
+
+  // Adds a new custom profile or updates an existing one
+  const handleSaveQcProfile = (profile: QCProfile) => {
+    const exists = customProfiles.some(p => p.id === profile.id);
+    const updated = exists
+      ? customProfiles.map(p => (p.id === profile.id ? profile : p))
+      : [...customProfiles, profile];
+    setCustomProfiles(updated);
+    localStorage.setItem('qcCustomProfiles', JSON.stringify(updated));
+    if (!exists) handleSelectQcProfile(profile.id);
+  };
+
+  const handleDeleteQcProfile = (id: string) => {
+    const updated = customProfiles.filter(p => p.id !== id);
+    setCustomProfiles(updated);
+    localStorage.setItem('qcCustomProfiles', JSON.stringify(updated));
+    if (qcProfileId === id) handleSelectQcProfile(QC_PROFILES[0].id);
+  };
+
+  // Centralized function to update tracks and manage history
+  const handleTracksChange = useCallback((newTracks: SubtitleTrack[]) => {
     setHistory(prev => {
         // Limit history size to last 50 states to save memory
-        const newPast = [...prev.past, cues];
+        const newPast = [...prev.past, tracks];
         if (newPast.length > 50) newPast.shift();
         return {
             past: newPast,
             future: []
         };
     });
-    setCues(newCues);
-  }, [cues]);
+    setTracks(newTracks);
+  }, [tracks]);
+
+  // Cue edits always target the active track; tracks sharing its timing follow along
+  const handleCuesChange = useCallback((newCues: SubtitleCue[]) => {
+    // Word timings follow every text and timing edit, whichever tool made it; moved cues take their words along
+    const before = new Map<string, SubtitleCue>(activeTrack.cues.map(cue => [cue.id, cue]));
+    handleTracksChange(updateTrackCues(tracks, activeTrack.id, newCues.map(cue => syncCueWords(cue, before.get(cue.id)))));
+  }, [tracks, activeTrack.id, activeTrack.cues, handleTracksChange]);
+
+  // Helper to replace the active track's cues with an imported file, keeping its WebVTT header
+  const replaceActiveCues = (newCues: SubtitleCue[], header: VTTHeader | null) => {
+    const updated = updateTrackCues(tracks, activeTrack.id, newCues.map(cue => syncCueWords(cue)));
+    handleTracksChange(updateTrack(updated, activeTrack.id, { vttHeader: header }));
+  };
+
+  const handleAddTrack = () => {
+    const track = createTrack(`Track ${tracks.length + 1}`);
+    handleTracksChange([...tracks, track]);
+    setActiveTrackId(track.id);
+  };
+
+  const handleDeleteTrack = (id: string) => {
+    if (tracks.length < 2) return;
+    const remaining = removeTrack(tracks, id);
+    handleTracksChange(remaining);
+    if (activeTrack.id === id) setActiveTrackId(remaining[0].id);
+    if (secondaryTrackId === id) setSecondaryTrackId(null);
+  };
+
+  const handleUpdateCue = (id: string, updates: Partial<SubtitleCue>) => {
+    handleCuesChange(cues.map(c => c.id === id ? { ...c, ...updates } : c));
+  };
 
   const undo = useCallback(() => {
       if (history.past.length === 0) return;
@@ -112,10 +294,10 @@ export default function App() {
       
       setHistory(prev => ({
           past: newPast,
-          future: [cues, ...prev.future]
+          future: [tracks, ...prev.future]
       }));
-      setCues(previous);
-  }, [cues, history.past]);
+      setTracks(previous);
+  }, [tracks, history.past]);
 
   const redo = useCallback(() => {
       if (history.future.length === 0) return;
@@ -124,11 +306,11 @@ export default function App() {
       const newFuture = history.future.slice(1);
       
       setHistory(prev => ({
-          past: [...prev.past, cues],
+          past: [...prev.past, tracks],
           future: newFuture
       }));
-      setCues(next);
-  }, [cues, history.future]);
+      setTracks(next);
+  }, [tracks, history.future]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -141,47 +323,62 @@ export default function App() {
               }
               e.preventDefault();
           }
+          if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'f') {
+              setActiveTab('editor');
+              setShowFind(true);
+              e.preventDefault();
+          }
       };
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
   }, [undo, redo]);
 
+  const buildProject = (id: string, name: string): Project => ({
+    id,
+    name,
+    lastModified: Date.now(),
+    tracks,
+    activeTrackId: activeTrack.id,
+    style,
+    secondaryTrackId: secondaryTrack?.id || null,
+    secondaryStyle,
+    glossary,
+  });
+
   const saveProjectToLocal = () => {
-    const project: Project = {
-      id: 'current',
-      name: 'Untitled Project',
-      lastModified: Date.now(),
-      cues,
-      style,
-    };
+    const project = buildProject('current', 'Untitled Project');
     localStorage.setItem('autoSubProject', JSON.stringify(project));
     alert('Project saved to browser storage!');
   };
 
   const handleExportProject = () => {
-    const project: Project = {
-      id: 'export',
-      name: videoState.file?.name || 'project',
-      lastModified: Date.now(),
-      cues,
-      style,
-    };
+    const project = buildProject('export', videoState.file?.name || 'project');
     const content = JSON.stringify(project, null, 2);
     downloadFile(`${project.name.replace(/\.[^/.]+$/, "")}_project.json`, content, 'application/json');
   };
 
-  const handleSaveApiKey = (key: string) => {
-      setApiKey(key);
-      localStorage.setItem('geminiApiKey', key);
+  const handleSaveSettings = () => {
+      localStorage.setItem('providerSettings', JSON.stringify(providerSettings));
+      localStorage.setItem('geminiApiKey', providerSettings.gemini.apiKey);
       setShowSettings(false);
   };
 
+  // Helper to edit one field of the selected provider's settings
+  const updateProviderField = <K extends ProviderKind>(kind: K, updates: Partial<ProviderSettings[K]>) => {
+      setProviderSettings(prev => ({ ...prev, [kind]: { ...prev[kind], ...updates } }));
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
       const url = URL.createObjectURL(file);
-      setVideoState(prev => ({ ...prev, file, url, currentTime: 0, isPlaying: false }));
-      setCues([]); // Reset cues for new video
+      // Crop keyframes belong to the old video's shots; the mode and fill carry over
+      setVideoState(prev => ({ ...prev, file, url, currentTime: 0, isPlaying: false, reframe: { ...prev.reframe, focus: DEFAULT_REFRAME.focus } }));
+      // Reset tracks for new video
+      const track = createTrack(DEFAULT_TRACK_NAME);
+      setTracks([track]);
+      setActiveTrackId(track.id);
+      setSecondaryTrackId(null);
       setHistory({ past: [], future: [] }); // Reset history
     }
   };
@@ -196,19 +393,50 @@ export default function App() {
           if (file.name.endsWith('.json')) {
               // Import Project File
               const project: Project = JSON.parse(content);
-              if (Array.isArray(project.cues) && project.style) {
-                  setCues(project.cues);
-                  setStyle(project.style);
-                  setHistory({ past: [], future: [] });
+              if ((Array.isArray(project.tracks) || Array.isArray(project.cues)) && project.style) {
+                  applyProject(project);
                   alert(`Project "${project.name}" loaded successfully.`);
               } else {
                   alert('Invalid project file format.');
               }
           } else {
-              // Import Subtitle File (SRT/VTT)
-              const parsedCues = parseSRT(content);
+              // Import Subtitle File (SRT/VTT/ASS/SSA/TTML/DFXP/SBV)
+              const extension = file.name.split('.').pop()?.toLowerCase();
+              let parsedCues: SubtitleCue[];
+              let parsedStyle: Partial<SubtitleStyle> | null = null;
+              let header: VTTHeader | null = null;
+
+              switch (extension) {
+                case 'ass':
+                case 'ssa':
+                  ({ cues: parsedCues, style: parsedStyle } = parseASS(content));
+                  break;
+                case 'vtt':
+                  // Keeps cue settings, markup and header blocks
+                  ({ cues: parsedCues, header } = parseVTT(content));
+                  break;
+                case 'ttml':
+                case 'dfxp':
+                case 'xml':
+                  ({ cues: parsedCues, style: parsedStyle } = parseTTML(content));
+                  break;
+                case 'sbv':
+                  parsedCues = parseSBV(content);
+                  break;
+                default: {
+                  const report = parseSRTWithDiagnostics(content);
+                  if (report.diagnostics.length > 0) {
+                    // Let the user review what was skipped before importing the rest
+                    setImportReport({ fileName: file.name, report });
+                    return;
+                  }
+                  parsedCues = report.cues;
+                }
+              }
+
               if (parsedCues.length > 0) {
-                handleCuesChange(parsedCues);
+                replaceActiveCues(parsedCues, header);
+                if (parsedStyle) setStyle(prev => ({ ...prev, ...parsedStyle }));
                 alert(`Imported ${parsedCues.length} subtitles.`);
               } else {
                 alert('No valid subtitles found in file.');
@@ -223,69 +451,112 @@ export default function App() {
     }
   };
 
+  const confirmImportReport = () => {
+    if (!importReport) return;
+    replaceActiveCues(importReport.report.cues, null);
+    setImportReport(null);
+  };
+
+  // Points out glossary breaks right after an AI step; they stay listed in the QC tab
+  const reportGlossaryIssues = (count: number) => {
+    if (count === 0) return;
+    setActiveTab('qc');
+    alert(`${count} subtitle${count === 1 ? ' does' : 's do'} not follow the project glossary. See the QC tab.`);
+  };
+
   const handleTranscribe = async () => {
     if (!videoState.file) return;
     
-    if (!apiKey) {
+    if (getProviderSetupError(providerSettings)) {
         setShowSettings(true);
         return;
     }
 
+    jobRef.current = new AbortController();
     setIsProcessing(true);
     setProgressMsg("Initializing AI...");
 
     try {
-      const newCues = await transcribeVideo(videoState.file, apiKey, setProgressMsg);
+      const newCues = await createProvider(providerSettings).transcribe(videoState.file, setProgressMsg, {
+        duration: videoState.duration,
+        source: transcriptionSource,
+        glossary,
+        signal: jobRef.current.signal,
+      });
       handleCuesChange(newCues);
       setProgressMsg("");
+      reportGlossaryIssues(checkGlossary(newCues, glossary).length);
     } catch (error: any) {
-      alert(error.message);
+      if (!isCancelled(error)) alert(describeError(error));
     } finally {
+      jobRef.current = null;
       setIsProcessing(false);
     }
   };
 
-  const handleTranslate = async (langName: string) => {
+  // The translation becomes a new track that shares the source track's timing; the source stays as it was
+  const handleTranslate = async (lang: { code: string; name: string }) => {
     if (cues.length === 0) return;
     
-    if (!apiKey) {
+    if (getProviderSetupError(providerSettings)) {
         setShowSettings(true);
         return;
     }
 
+    jobRef.current = new AbortController();
     setIsProcessing(true);
-    setProgressMsg(`Translating to ${langName} (${translationStyle})...`);
+    setProgressMsg(`Translating to ${lang.name} (${translationStyle})...`);
     try {
-      const srt = generateSRT(cues);
-      const translatedCues = await translateSubtitles(srt, langName, translationStyle, apiKey);
-      handleCuesChange(translatedCues);
+      const translatedCues = await createProvider(providerSettings).translate(cues, lang.name, translationStyle, setProgressMsg, {
+        glossary,
+        languageCode: lang.code,
+        signal: jobRef.current.signal,
+      });
+      const track = createTrack(lang.name, lang.code, translatedCues, timingRoot(activeTrack));
+      handleTracksChange([...tracks, track]);
+      setActiveTrackId(track.id);
+      reportGlossaryIssues(checkGlossary(translatedCues, glossary, cues, lang.code).length);
     } catch (error: any) {
-      alert(error.message);
+      if (!isCancelled(error)) alert(describeError(error));
     } finally {
+      jobRef.current = null;
       setIsProcessing(false);
       setProgressMsg("");
     }
   };
 
-  const handleExport = (format: 'srt' | 'vtt') => {
-    const content = generateSRT(cues);
-    
-    if (format === 'vtt') {
-      // VTT needs 'WEBVTT' header and dot instead of comma for ms in timestamps
-      // We use a regex to only replace the comma in the timestamp pattern to avoid modifying text content
-      const vttContent = `WEBVTT\n\n${content.replace(/(\d{2}:\d{2}:\d{2}),(\d{3})/g, '$1.$2')}`;
-      downloadFile('subtitles.vtt', vttContent, 'text/vtt');
-    } else {
-      downloadFile('subtitles.srt', content, 'text/plain');
+  const handleExport = (format: SubtitleFormat) => {
+    const title = videoState.file?.name.replace(/\.[^/.]+$/, "") || 'Untitled Project';
+
+    switch (format) {
+      case 'vtt':
+        downloadFile(trackFileName(activeTrack, 'vtt'), generateVTT(cues, vttHeader), 'text/vtt');
+        break;
+      case 'ass':
+      case 'ssa':
+        downloadFile(trackFileName(activeTrack, format), generateASS(cues, style, format, title), 'text/plain');
+        break;
+      case 'ttml':
+      case 'dfxp':
+        downloadFile(trackFileName(activeTrack, format), generateTTML(cues, style, activeTrack.language || 'en', title), 'application/ttml+xml');
+        break;
+      case 'sbv':
+        downloadFile(trackFileName(activeTrack, 'sbv'), generateSBV(cues), 'text/plain');
+        break;
+      default:
+        downloadFile(trackFileName(activeTrack, 'srt'), generateSRT(cues), 'text/plain');
     }
   };
 
-  const handleBurnVideo = async () => {
+  const handleBurnVideo = async (settings: ExportSettings) => {
     if (!videoState.file) {
       alert("Please upload a local video file to use this feature.");
       return;
     }
 
+    setShowExport(false);
+    setExportSettings(settings);
+    localStorage.setItem('exportSettings', JSON.stringify(settings));
     setIsProcessing(true);
     setProgressMsg("Preparing to burn subtitles...");
     setBurnProgress(0);
@@ -301,13 +572,18 @@ export default function App() {
         videoState.file, 
         cues, 
         style, 
+        settings,
+        { aspectRatio: videoState.aspectRatio, reframe: videoState.reframe },
         (progress) => {
-          setBurnProgress(progress);
-          setProgressMsg(`Rendering Video... ${progress}%`);
-        }
+          setBurnProgress(progress.percent);
+          setProgressMsg(progress.totalFrames
+            ? `Rendering Video... frame ${progress.framesDone} of ${progress.totalFrames}`
+            : `Rendering Video... ${progress.percent}%`);
+        },
+        secondaryTrack ? { cues: secondaryTrack.cues, style: secondaryStyle } : undefined
       );
 
-      downloadFile("video_with_subs.webm", "", blob.type, blob);
+      downloadFile(exportFileName(blob.type), "", blob.type, blob);
       
     } catch (error: any) {
       console.error(error);
@@ -360,24 +636,99 @@ export default function App() {
                 
                 <div className="space-y-4">
                     <div>
-                        <label className="block text-sm font-medium text-zinc-300 mb-1">Gemini API Key</label>
-                        <div className="relative">
-                            <Key size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
-                            <input 
-                                type="password"
-                                value={apiKey}
-                                onChange={(e) => setApiKey(e.target.value)}
-                                placeholder="Enter your Gemini API Key"
-                                className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 pl-10 pr-4 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
-                            />
-                        </div>
-                        <p className="text-xs text-zinc-500 mt-2">
-                            Your key is stored locally in your browser. Get your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">Google AI Studio</a>.
-                        </p>
+                        <label className="block text-sm font-medium text-zinc-300 mb-1">AI Provider</label>
+                        <select
+                            value={providerSettings.provider}
+                            onChange={(e) => setProviderSettings(prev => ({ ...prev, provider: e.target.value as ProviderKind }))}
+                            className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 px-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                        >
+                            {(Object.keys(PROVIDER_LABELS) as ProviderKind[]).map(kind => (
+                                <option key={kind} value={kind}>{PROVIDER_LABELS[kind]}</option>
+                            ))}
+                        </select>
                     </div>
+
+                    {providerSettings.provider === 'gemini' ? (
+                        <>
+                            <div>
+                                <label className="block text-sm font-medium text-zinc-300 mb-1">Gemini API Key</label>
+                                <div className="relative">
+                                    <Key size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
+                                    <input 
+                                        type="password"
+                                        value={providerSettings.gemini.apiKey}
+                                        onChange={(e) => updateProviderField('gemini', { apiKey: e.target.value })}
+                                        placeholder="Enter your Gemini API Key"
+                                        className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 pl-10 pr-4 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    />
+                                </div>
+                                <p className="text-xs text-zinc-500 mt-2">
+                                    Your key is stored locally in your browser. Get your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noreferrer" className="text-blue-400 hover:underline">Google AI Studio</a>.
+                                </p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-zinc-300 mb-1">Model</label>
+                                <input
+                                    type="text"
+                                    value={providerSettings.gemini.model}
+                                    onChange={(e) => updateProviderField('gemini', { model: e.target.value })}
+                                    className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 px-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <div>
+                                <label className="block text-sm font-medium text-zinc-300 mb-1">Server URL</label>
+                                <input
+                                    type="text"
+                                    value={providerSettings.openai.baseUrl}
+                                    onChange={(e) => updateProviderField('openai', { baseUrl: e.target.value })}
+                                    placeholder="http://localhost:8000/v1"
+                                    className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 px-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                />
+                                <p className="text-xs text-zinc-500 mt-2">
+                                    Base URL of an OpenAI-compatible API; <code>/audio/transcriptions</code> and <code>/chat/completions</code> are appended.
+                                </p>
+                            </div>
+                            <div>
+                                <label className="block text-sm font-medium text-zinc-300 mb-1">API Key <span className="text-zinc-500 font-normal">(optional)</span></label>
+                                <div className="relative">
+                                    <Key size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-zinc-500" />
+                                    <input 
+                                        type="password"
+                                        value={providerSettings.openai.apiKey}
+                                        onChange={(e) => updateProviderField('openai', { apiKey: e.target.value })}
+                                        placeholder="Leave empty for servers without auth"
+                                        className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 pl-10 pr-4 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    />
+                                </div>
+                            </div>
+                            <div className="grid grid-cols-2 gap-3">
+                                <div>
+                                    <label className="block text-sm font-medium text-zinc-300 mb-1">Transcription Model</label>
+                                    <input
+                                        type="text"
+                                        value={providerSettings.openai.transcriptionModel}
+                                        onChange={(e) => updateProviderField('openai', { transcriptionModel: e.target.value })}
+                                        className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 px-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-zinc-300 mb-1">Translation Model</label>
+                                    <input
+                                        type="text"
+                                        value={providerSettings.openai.chatModel}
+                                        onChange={(e) => updateProviderField('openai', { chatModel: e.target.value })}
+                                        className="w-full bg-zinc-900 border border-zinc-700 rounded-md py-2 px-3 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none"
+                                    />
+                                </div>
+                            </div>
+                        </>
+                    )}
                     
                     <button 
-                        onClick={() => handleSaveApiKey(apiKey)}
+                        onClick={handleSaveSettings}
                         className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 rounded-md transition-colors"
                     >
                         Save Settings
@@ -387,6 +738,50 @@ export default function App() {
         </div>
       )}
 
+      {/* Import Report Modal */}
+      {importReport && (
+        <ImportReportDialog
+          fileName={importReport.fileName}
+          report={importReport.report}
+          onConfirm={confirmImportReport}
+          onCancel={() => setImportReport(null)}
+        />
+      )}
+
+      {/* Glossary Modal */}
+      {showGlossary && (
+        <GlossaryDialog
+          glossary={glossary}
+          onSave={(updated) => {
+            setGlossary(updated);
+            setShowGlossary(false);
+          }}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
+
+      {/* Resync Modal */}
+      {showExport && (
+        <ExportDialog
+          settings={exportSettings}
+          duration={videoState.duration}
+          onExport={handleBurnVideo}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showResync && (
+        <ResyncDialog
+          cues={cues}
+          currentTime={videoState.currentTime}
+          onApply={(retimed) => {
+            handleCuesChange([...retimed].sort((a, b) => a.startTime - b.startTime));
+            setShowResync(false);
+          }}
+          onClose={() => setShowResync(false)}
+        />
+      )}
+
       {/* Sidebar */}
       <div className="w-80 flex flex-col border-r border-zinc-800 bg-[#18181b]">
         <div className="p-5 border-b border-zinc-800 flex justify-between items-center">
@@ -419,14 +814,26 @@ export default function App() {
           >
             Styles
           </button>
+          <button
+            onClick={() => setActiveTab('qc')}
+            className={`flex-1 py-3 text-sm font-medium transition-colors ${activeTab === 'qc' ? 'text-blue-400 border-b-2 border-blue-400 bg-zinc-800/50' : 'text-zinc-400 hover:text-zinc-200'}`}
+          >
+            QC{qcIssues.length > 0 && <span className="ml-1.5 text-[10px] px-1.5 py-0.5 rounded-full bg-amber-500/20 text-amber-400">{qcIssues.length}</span>}
+          </button>
+          <button
+            onClick={() => setActiveTab('speakers')}
+            className={`flex-1 py-3 text-sm font-medium transition-colors ${activeTab === 'speakers' ? 'text-blue-400 border-b-2 border-blue-400 bg-zinc-800/50' : 'text-zinc-400 hover:text-zinc-200'}`}
+          >
+            Speakers
+          </button>
         </div>
 
         <div className="flex-1 overflow-hidden">
-          {activeTab === 'editor' ? (
+          {activeTab === 'editor' && (
             <SubtitleEditor
               cues={cues}
               currentTime={videoState.currentTime}
-              onUpdateCue={(id, updates) => handleCuesChange(cues.map(c => c.id === id ? { ...c, ...updates } : c))}
+              onUpdateCue={handleUpdateCue}
               onDeleteCue={(id) => handleCuesChange(cues.filter(c => c.id !== id))}
               onAddCue={() => {
                 const start = videoState.currentTime;
@@ -435,20 +842,82 @@ export default function App() {
                 const updatedCues = [...cues, newCue].sort((a,b) => a.startTime - b.startTime);
                 handleCuesChange(updatedCues);
               }}
+              onSplitCue={(id, textIndex) => {
+                const updatedCues = splitCueInList(cues, id, { textIndex, time: videoState.currentTime });
+                if (updatedCues) handleCuesChange(updatedCues);
+              }}
+              onMergeCues={(ids) => {
+                const updatedCues = mergeCuesInList(cues, ids);
+                if (updatedCues) handleCuesChange(updatedCues);
+              }}
               onSeek={(time) => {
                   setVideoState(prev => ({...prev, currentTime: time}));
               }}
+              duration={videoState.duration}
+              onToggleFind={() => setShowFind(prev => !prev)}
+              onOpenResync={() => setShowResync(true)}
+              trackSwitcher={
+                <TrackSwitcher
+                  tracks={tracks}
+                  activeTrackId={activeTrack.id}
+                  secondaryTrackId={secondaryTrack?.id || null}
+                  onSelect={setActiveTrackId}
+                  onAdd={handleAddTrack}
+                  onUpdate={(id, updates) => handleTracksChange(updateTrack(tracks, id, updates))}
+                  onDelete={handleDeleteTrack}
+                  onLinkTiming={(id, sourceId) => handleTracksChange(linkTrackTiming(tracks, id, sourceId))}
+                  onSecondaryChange={setSecondaryTrackId}
+                />
+              }
+              findPanel={showFind ? (
+                <FindReplacePanel
+                  cues={cues}
+                  onCuesChange={handleCuesChange}
+                  onSeek={(time) => setVideoState(prev => ({...prev, currentTime: time}))}
+                  onClose={() => setShowFind(false)}
+                />
+              ) : undefined}
               onUndo={undo}
               onRedo={redo}
               canUndo={history.past.length > 0}
               canRedo={history.future.length > 0}
+              issuesByCue={qcIssuesByCue}
+              speakerColors={speakerColors}
             />
-          ) : (
+          )}
+          {activeTab === 'styles' && (
             <StyleControls
-              style={style}
-              onChange={(updates) => setStyle({ ...style, ...updates })}
+              style={editingSecondaryStyle ? secondaryStyle : style}
+              onChange={(updates) => editingSecondaryStyle
+                ? setSecondaryStyle({ ...secondaryStyle, ...updates })
+                : setStyle({ ...style, ...updates })}
+              styleTarget={editingSecondaryStyle ? 'secondary' : 'primary'}
+              onStyleTargetChange={secondaryTrack ? setStyleTarget : undefined}
               aspectRatio={videoState.aspectRatio}
               onAspectRatioChange={(ratio) => setVideoState({ ...videoState, aspectRatio: ratio })}
+              reframe={videoState.reframe}
+              onReframeChange={(reframe) => setVideoState(prev => ({ ...prev, reframe }))}
+              currentTime={videoState.currentTime}
+            />
+          )}
+          {activeTab === 'qc' && (
+            <QualityPanel
+              cues={cues}
+              issues={qcIssues}
+              profiles={qcProfiles}
+              profile={qcProfile}
+              onSelectProfile={handleSelectQcProfile}
+              onSaveProfile={handleSaveQcProfile}
+              onDeleteProfile={handleDeleteQcProfile}
+              onSeek={(time) => setVideoState(prev => ({...prev, currentTime: time}))}
+            />
+          )}
+          {activeTab === 'speakers' && (
+            <SpeakerPanel
+              cues={cues}
+              speakerColors={speakerColors}
+              onRename={handleRenameSpeaker}
+              onColorChange={(speaker, color) => setStyle({ ...style, speakerColors: { ...style.speakerColors, [speaker]: color } })}
             />
           )}
         </div>
@@ -456,7 +925,7 @@ export default function App() {
         {/* Actions Footer */}
         <div className="p-4 border-t border-zinc-800 bg-[#18181b] space-y-3">
           <button 
-                onClick={handleBurnVideo}
+                onClick={() => setShowExport(true)}
                 disabled={!videoState.file || cues.length === 0}
                 className={`w-full flex items-center justify-center gap-2 px-3 py-2.5 rounded-md text-xs font-bold uppercase tracking-wide transition-colors ${
                   !videoState.file || cues.length === 0 
@@ -468,18 +937,15 @@ export default function App() {
           </button>
           
           <div className="grid grid-cols-2 gap-2">
-            <button 
-                onClick={() => handleExport('srt')}
-                className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-md text-xs font-medium transition-colors border border-zinc-700"
-            >
-              <Download size={14} /> Export SRT
-            </button>
-            <button 
-                onClick={() => handleExport('vtt')}
-                className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-md text-xs font-medium transition-colors border border-zinc-700"
-            >
-              <Download size={14} /> Export VTT
-            </button>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button 
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  className="flex items-center justify-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 rounded-md text-xs font-medium transition-colors border border-zinc-700"
+              >
+                <Download size={14} /> Export {label}
+              </button>
+            ))}
           </div>
           
           <div className="grid grid-cols-2 gap-2">
@@ -513,7 +979,7 @@ export default function App() {
             <label className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700 rounded-md cursor-pointer transition-all">
                 <FolderUp size={16} />
                 <span className="text-sm font-medium">Import / Load</span>
-                <input type="file" accept=".srt,.vtt,.json" className="hidden" onChange={handleFileImport} />
+                <input type="file" accept={SUBTITLE_FILE_ACCEPT} className="hidden" onChange={handleFileImport} />
             </label>
             {videoState.file && (
               <span className="text-xs text-zinc-400 bg-zinc-900 px-3 py-1 rounded-full border border-zinc-800 truncate max-w-[200px]">
@@ -537,6 +1003,27 @@ export default function App() {
               {isProcessing && !burnProgress ? 'Processing...' : 'Auto Transcribe'}
             </button>
 
+            <div className="flex items-center gap-2 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md" title={providerSettings.provider === 'gemini' ? 'What to send for transcription' : 'Whisper servers only accept audio'}>
+                <AudioLines size={14} className="text-zinc-400" />
+                <select
+                    value={providerSettings.provider === 'gemini' ? transcriptionSource : 'audio'}
+                    disabled={providerSettings.provider !== 'gemini'}
+                    onChange={(e) => setTranscriptionSource(e.target.value as TranscriptionSource)}
+                    className="bg-transparent text-sm text-zinc-200 outline-none cursor-pointer border-none focus:ring-0 disabled:cursor-not-allowed disabled:text-zinc-500"
+                >
+                    <option value="audio" className="bg-zinc-900 text-zinc-200">Audio only</option>
+                    <option value="video" className="bg-zinc-900 text-zinc-200">Audio + video</option>
+                </select>
+            </div>
+
+            <button
+              onClick={() => setShowGlossary(true)}
+              className="flex items-center gap-2 px-3 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-sm text-zinc-200 transition-colors"
+              title="Names and terms the AI must spell or translate your way"
+            >
+              <BookA size={14} className="text-zinc-400" /> Glossary
+            </button>
+
             {/* Translation Style Dropdown - Moved here for better visibility */}
             <div className="flex items-center gap-2 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-md" title="Translation Style">
                 <Palette size={14} className="text-zinc-400" />
@@ -569,7 +1056,7 @@ export default function App() {
                         {SAMPLE_LANGUAGES.map(lang => (
                             <button
                                 key={lang.code}
-                                onClick={() => handleTranslate(lang.name)}
+                                onClick={() => handleTranslate(lang)}
                                 className="w-full text-left px-4 py-2 text-sm text-zinc-300 hover:bg-zinc-800 hover:text-white transition-colors flex items-center justify-between"
                             >
                                 <span>{lang.name}</span>
@@ -599,6 +1086,17 @@ export default function App() {
                     <p className="text-lg text-white font-medium">{progressMsg}</p>
                     {burnProgress > 0 && <p className="text-sm text-zinc-400 mt-2">Do not close this tab.</p>}
                 </div>
+                {jobRef.current && (
+                    <button
+                        onClick={() => {
+                            jobRef.current?.abort();
+                            setProgressMsg("Cancelling...");
+                        }}
+                        className="flex items-center gap-2 px-4 py-2 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-sm rounded-md transition-colors"
+                    >
+                        <X size={16} /> Cancel
+                    </button>
+                )}
             </div>
           )}
 
@@ -611,7 +1109,22 @@ export default function App() {
                     onEnded={() => setVideoState(prev => ({...prev, isPlaying: false}))}
                     cues={cues}
                     style={style}
+                    secondaryCues={secondaryTrack?.cues}
+                    secondaryStyle={secondaryTrack ? secondaryStyle : undefined}
                     isPlaying={videoState.isPlaying}
+                    onFocusChange={(x) => setVideoState(prev => ({
+                      ...prev,
+                      reframe: { ...prev.reframe, focus: setFocusAt(prev.reframe.focus, prev.currentTime, x) },
+                    }))}
+                />
+
+                <WaveformTimeline
+                    file={videoState.file}
+                    duration={videoState.duration}
+                    currentTime={videoState.currentTime}
+                    cues={cues}
+                    onUpdateCue={handleUpdateCue}
+                    onSeek={handleVideoTimeUpdate}
                 />
                 
                 {/* Transport Controls */}
@@ -663,7 +1176,7 @@ export default function App() {
                     <label className="inline-flex items-center gap-2 px-6 py-3 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 rounded-full cursor-pointer transition-all font-medium border border-zinc-700">
                         <FolderUp size={18} />
                         <span>Import / Load</span>
-                        <input type="file" accept=".srt,.vtt,.json" className="hidden" onChange={handleFileImport} />
+                        <input type="file" accept={SUBTITLE_FILE_ACCEPT} className="hidden" onChange={handleFileImport} />
                     </label>
                 </div>
                 <p className="text-xs text-zinc-600 mt-4">
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react';
+import { ExportContainer, ExportResolution, ExportSettings } from '../types';
+import { X, Film } from 'lucide-react';
+import { BITRATE_OPTIONS, CONTAINER_LABELS, FRAME_RATE_OPTIONS, RESOLUTION_LABELS, estimateExportSize } from '../utils/exportSettings';
+import { getSupportedContainers } from '../utils/videoProcessor';
+
+interface ExportDialogProps {
+  settings: ExportSettings;
+  duration: number;
+  onExport: (settings: ExportSettings) => void;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1e9 ? `${(bytes / 1e9).toFixed(1)} GB` : `${Math.max(1, Math.round(bytes / 1e6))} MB`;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({
+  settings,
+  duration,
+  onExport,
+  onClose,
+}) => {
+  const [draft, setDraft] = useState<ExportSettings>(settings);
+  // Null until the browser has been asked what it can encode
+  const [supported, setSupported] = useState<ExportContainer[] | null>(null);
+
+  useEffect(() => {
+    getSupportedContainers()
+      .then((containers) => {
+        setSupported(containers);
+        // A saved choice this browser can't write falls back to one it can
+        setDraft(prev => (containers.length > 0 && !containers.includes(prev.container) ? { ...prev, container: containers[0] } : prev));
+      })
+      // Without an answer every format stays selectable; the export itself reports what fails
+      .catch(error => console.warn("Could not check the supported export formats:", error));
+  }, []);
+
+  const update = (updates: Partial<ExportSettings>) => setDraft(prev => ({ ...prev, ...updates }));
+
+  const inputClass = 'w-full bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[#18181b] border border-zinc-800 rounded-lg shadow-2xl w-full max-w-md p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+        <div className="flex items-center gap-3 mb-4 text-blue-400">
+          <Film size={24} />
+          <h2 className="text-xl font-bold text-white">Export Video</h2>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          <div>
+            <label className="block text-xs text-zinc-400 mb-1">Format</label>
+            <select
+              value={draft.container}
+              onChange={(e) => update({ container: e.target.value as ExportContainer })}
+              className={inputClass}
+            >
+              {(Object.keys(CONTAINER_LABELS) as ExportContainer[]).map(container => (
+                <option key={container} value={container} disabled={supported !== null && !supported.includes(container)}>
+                  {CONTAINER_LABELS[container]}{supported !== null && !supported.includes(container) ? ' (not supported by this browser)' : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Resolution</label>
+              <select
+                value={draft.resolution}
+                onChange={(e) => update({ resolution: e.target.value as ExportResolution })}
+                className={inputClass}
+              >
+                {(Object.keys(RESOLUTION_LABELS) as ExportResolution[]).map(resolution => (
+                  <option key={resolution} value={resolution}>{RESOLUTION_LABELS[resolution]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Frame Rate</label>
+              <select
+                value={String(draft.frameRate)}
+                onChange={(e) => update({ frameRate: e.target.value === 'source' ? 'source' : Number(e.target.value) })}
+                className={inputClass}
+              >
+                {FRAME_RATE_OPTIONS.map(rate => (
+                  <option key={rate} value={String(rate)}>{rate === 'source' ? 'Match source' : `${rate} fps`}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs text-zinc-400 mb-1">Quality</label>
+            <select
+              value={draft.videoBitrate}
+              onChange={(e) => update({ videoBitrate: Number(e.target.value) })}
+              className={inputClass}
+            >
+              {BITRATE_OPTIONS.map(({ bitrate, label }) => (
+                <option key={bitrate} value={bitrate}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <p className="text-xs text-zinc-500 mb-4">
+          {duration > 0 ? `Estimated size: about ${formatSize(estimateExportSize(draft, duration))}.` : 'The size is estimated once the video has loaded.'}
+          {' '}Resolution presets never upscale.
+        </p>
+
+        <button
+          onClick={() => onExport(draft)}
+          disabled={supported !== null && supported.length === 0}
+          className="w-full bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white font-medium py-2 rounded-md transition-colors"
+        >
+          Burn & Download
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
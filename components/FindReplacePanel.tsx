@@ -0,0 +1,182 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { SubtitleCue } from '../types';
+import { ChevronUp, ChevronDown, X, CaseSensitive, WholeWord, Regex } from 'lucide-react';
+import { buildSearchRegex, findMatches, replaceMatch, replaceAllMatches, SearchOptions } from '../utils/findReplace';
+
+interface FindReplacePanelProps {
+  cues: SubtitleCue[];
+  onCuesChange: (cues: SubtitleCue[]) => void;
+  onSeek: (time: number) => void;
+  onClose: () => void;
+}
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({
+  cues,
+  onCuesChange,
+  onSeek,
+  onClose,
+}) => {
+  const [query, setQuery] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<SearchOptions>({ regex: false, caseSensitive: false, wholeWord: false });
+  const [current, setCurrent] = useState(0);
+  const [lastResult, setLastResult] = useState('');
+  const queryRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    queryRef.current?.focus();
+  }, []);
+
+  const { pattern, error } = useMemo(() => {
+    try {
+      return { pattern: buildSearchRegex(query, options), error: '' };
+    } catch (e: any) {
+      return { pattern: null, error: e.message as string };
+    }
+  }, [query, options]);
+
+  const matches = useMemo(() => (pattern ? findMatches(cues, pattern) : []), [cues, pattern]);
+  const currentIndex = matches.length > 0 ? Math.min(current, matches.length - 1) : -1;
+  const currentMatch = currentIndex >= 0 ? matches[currentIndex] : null;
+
+  const goTo = (index: number) => {
+    if (matches.length === 0) return;
+    const wrapped = (index + matches.length) % matches.length;
+    setCurrent(wrapped);
+    const cue = cues.find(c => c.id === matches[wrapped].cueId);
+    if (cue) onSeek(cue.startTime);
+  };
+
+  const toggleOption = (key: keyof SearchOptions) => {
+    setOptions(prev => ({ ...prev, [key]: !prev[key] }));
+    setCurrent(0);
+  };
+
+  const handleReplace = () => {
+    if (!currentMatch) return;
+    onCuesChange(replaceMatch(cues, currentMatch, replacement, options));
+    setLastResult('');
+  };
+
+  // One onCuesChange call, so the whole replace-all is a single undo step
+  const handleReplaceAll = () => {
+    if (!pattern) return;
+    const result = replaceAllMatches(cues, pattern, replacement, options);
+    if (result.count > 0) onCuesChange(result.cues);
+    setLastResult(`Replaced ${result.count} occurrence${result.count === 1 ? '' : 's'}.`);
+    setCurrent(0);
+  };
+
+  const optionButton = (key: keyof SearchOptions, icon: React.ReactNode, title: string) => (
+    <button
+      onClick={() => toggleOption(key)}
+      className={`p-1 rounded transition-colors ${options[key] ? 'bg-blue-600/20 text-blue-400' : 'text-zinc-500 hover:text-zinc-200 hover:bg-zinc-700'}`}
+      title={title}
+    >
+      {icon}
+    </button>
+  );
+
+  return (
+    <div className="p-3 border-b border-zinc-800 bg-zinc-900/60 space-y-2 text-xs">
+      <div className="flex items-center gap-1">
+        <div className={`flex-1 flex items-center bg-zinc-800 border rounded-md pr-1 ${error ? 'border-red-500/60' : 'border-zinc-700'}`}>
+          <input
+            ref={queryRef}
+            type="text"
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setCurrent(0);
+              setLastResult('');
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') goTo(e.shiftKey ? currentIndex - 1 : currentIndex + 1);
+              if (e.key === 'Escape') onClose();
+            }}
+            placeholder="Find"
+            className="flex-1 min-w-0 bg-transparent px-2 py-1.5 text-zinc-100 focus:outline-none"
+          />
+          {optionButton('caseSensitive', <CaseSensitive size={14} />, 'Match case')}
+          {optionButton('wholeWord', <WholeWord size={14} />, 'Match whole word')}
+          {optionButton('regex', <Regex size={14} />, 'Use regular expression')}
+        </div>
+        <span className="w-14 text-center text-zinc-500 font-mono">
+          {matches.length > 0 ? `${currentIndex + 1}/${matches.length}` : query ? '0/0' : ''}
+        </span>
+        <button
+          onClick={() => goTo(currentIndex - 1)}
+          disabled={matches.length === 0}
+          className="p-1 text-zinc-400 hover:text-white hover:bg-zinc-700 rounded disabled:opacity-30"
+          title="Previous match (Shift+Enter)"
+        >
+          <ChevronUp size={14} />
+        </button>
+        <button
+          onClick={() => goTo(currentIndex + 1)}
+          disabled={matches.length === 0}
+          className="p-1 text-zinc-400 hover:text-white hover:bg-zinc-700 rounded disabled:opacity-30"
+          title="Next match (Enter)"
+        >
+          <ChevronDown size={14} />
+        </button>
+        <button
+          onClick={onClose}
+          className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded"
+          title="Close (Esc)"
+        >
+          <X size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-1">
+        <input
+          type="text"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') onClose();
+          }}
+          placeholder={options.regex ? 'Replace ($1 for groups)' : 'Replace'}
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded-md px-2 py-1.5 text-zinc-100 focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <button
+          onClick={handleReplace}
+          disabled={!currentMatch}
+          className="px-2 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 rounded-md text-zinc-200 disabled:opacity-30"
+        >
+          Replace
+        </button>
+        <button
+          onClick={handleReplaceAll}
+          disabled={matches.length === 0}
+          className="px-2 py-1.5 bg-blue-600 hover:bg-blue-700 rounded-md text-white disabled:opacity-30 disabled:hover:bg-blue-600"
+        >
+          All
+        </button>
+      </div>
+
+      {error && <p className="text-red-400">{error}</p>}
+      {!error && lastResult && <p className="text-zinc-500">{lastResult}</p>}
+      {currentMatch && (
+        <p className="text-zinc-500 truncate" title={cues.find(c => c.id === currentMatch.cueId)?.text}>
+          {(() => {
+            const text = cues.find(c => c.id === currentMatch.cueId)?.text || '';
+            const before = text.slice(Math.max(0, currentMatch.index - 20), currentMatch.index);
+            const hit = text.slice(currentMatch.index, currentMatch.index + currentMatch.length);
+            const after = text.slice(currentMatch.index + currentMatch.length, currentMatch.index + currentMatch.length + 30);
+            return (
+              <>
+                {currentMatch.index > 20 ? '…' : ''}{before}
+                <mark className="bg-amber-400/30 text-amber-200 rounded px-0.5">{hit}</mark>
+                {after}
+              </>
+            );
+          })()}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FindReplacePanel;
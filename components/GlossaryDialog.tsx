@@ -0,0 +1,163 @@
+import React, { useState } from 'react';
+import { Glossary } from '../types';
+import { X, BookA, Plus, Trash2 } from 'lucide-react';
+import { createCueId } from '../utils/srtParser';
+import { cleanGlossary } from '../utils/glossary';
+
+interface GlossaryDialogProps {
+  glossary: Glossary;
+  onSave: (glossary: Glossary) => void;
+  onClose: () => void;
+}
+
+type GlossarySection = 'spellings' | 'keep' | 'forced';
+
+const GlossaryDialog: React.FC<GlossaryDialogProps> = ({
+  glossary,
+  onSave,
+  onClose,
+}) => {
+  const [section, setSection] = useState<GlossarySection>('spellings');
+  // Edited as-is and cleaned up on save, so half-typed rows don't disappear
+  const [draft, setDraft] = useState<Glossary>(glossary);
+
+  // Helper to edit one row of a section
+  const updateRow = <K extends GlossarySection>(key: K, id: string, updates: Partial<Glossary[K][number]>) => {
+    setDraft(prev => ({ ...prev, [key]: prev[key].map(row => (row.id === id ? { ...row, ...updates } : row)) }));
+  };
+
+  const removeRow = (key: GlossarySection, id: string) => {
+    setDraft(prev => ({ ...prev, [key]: prev[key].filter(row => row.id !== id) }));
+  };
+
+  const addRow = () => {
+    const id = createCueId();
+    setDraft(prev => {
+      switch (section) {
+        case 'spellings':
+          return { ...prev, spellings: [...prev.spellings, { id, term: '', variants: [] }] };
+        case 'keep':
+          return { ...prev, keep: [...prev.keep, { id, term: '' }] };
+        case 'forced':
+          return { ...prev, forced: [...prev.forced, { id, source: '', language: '', target: '' }] };
+      }
+    });
+  };
+
+  const tabClass = (tab: GlossarySection) =>
+    `flex-1 py-2 text-xs font-medium transition-colors ${section === tab ? 'text-blue-400 border-b-2 border-blue-400 bg-zinc-800/50' : 'text-zinc-400 hover:text-zinc-200'}`;
+
+  const inputClass = 'w-full bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+  const languageInputClass = inputClass.replace('w-full', 'w-16 shrink-0 font-mono');
+
+  const deleteButton = (key: GlossarySection, id: string) => (
+    <button
+      onClick={() => removeRow(key, id)}
+      className="p-1.5 text-zinc-500 hover:text-red-400 rounded transition-colors shrink-0"
+      title="Remove"
+    >
+      <Trash2 size={14} />
+    </button>
+  );
+
+  const hints: Record<GlossarySection, string> = {
+    spellings: 'How names and terms must be written. Transcription is told about them, and cues using one of the wrong forms are flagged.',
+    keep: 'Brand and product names that must stay as they are in every translation.',
+    forced: 'Terms that must always be translated the same way into one language (use the track language code, e.g. vi).',
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[#18181b] border border-zinc-800 rounded-lg shadow-2xl w-full max-w-lg p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+        <div className="flex items-center gap-3 mb-4 text-blue-400">
+          <BookA size={24} />
+          <h2 className="text-xl font-bold text-white">Project Glossary</h2>
+        </div>
+
+        <div className="flex border-b border-zinc-800 mb-4">
+          <button onClick={() => setSection('spellings')} className={tabClass('spellings')}>Spellings</button>
+          <button onClick={() => setSection('keep')} className={tabClass('keep')}>Do Not Translate</button>
+          <button onClick={() => setSection('forced')} className={tabClass('forced')}>Forced Translations</button>
+        </div>
+
+        <p className="text-xs text-zinc-500 mb-3">{hints[section]}</p>
+
+        <div className="space-y-2 mb-3 max-h-72 overflow-y-auto">
+          {section === 'spellings' && draft.spellings.map(row => (
+            <div key={row.id} className="flex items-center gap-2">
+              <input
+                value={row.term}
+                onChange={(e) => updateRow('spellings', row.id, { term: e.target.value })}
+                placeholder="AutoSub"
+                className={inputClass}
+              />
+              <input
+                value={row.variants.join(',')}
+                onChange={(e) => updateRow('spellings', row.id, { variants: e.target.value.split(',') })}
+                placeholder="Wrong forms, comma separated"
+                className={inputClass}
+              />
+              {deleteButton('spellings', row.id)}
+            </div>
+          ))}
+          {section === 'keep' && draft.keep.map(row => (
+            <div key={row.id} className="flex items-center gap-2">
+              <input
+                value={row.term}
+                onChange={(e) => updateRow('keep', row.id, { term: e.target.value })}
+                placeholder="Product name"
+                className={inputClass}
+              />
+              {deleteButton('keep', row.id)}
+            </div>
+          ))}
+          {section === 'forced' && draft.forced.map(row => (
+            <div key={row.id} className="flex items-center gap-2">
+              <input
+                value={row.source}
+                onChange={(e) => updateRow('forced', row.id, { source: e.target.value })}
+                placeholder="Source term"
+                className={inputClass}
+              />
+              <input
+                value={row.language}
+                onChange={(e) => updateRow('forced', row.id, { language: e.target.value })}
+                placeholder="lang"
+                className={languageInputClass}
+              />
+              <input
+                value={row.target}
+                onChange={(e) => updateRow('forced', row.id, { target: e.target.value })}
+                placeholder="Translation"
+                className={inputClass}
+              />
+              {deleteButton('forced', row.id)}
+            </div>
+          ))}
+        </div>
+
+        <button
+          onClick={addRow}
+          className="flex items-center gap-1.5 px-2.5 py-1.5 mb-4 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-xs rounded-md transition-colors"
+        >
+          <Plus size={14} /> Add Term
+        </button>
+
+        <button
+          onClick={() => onSave(cleanGlossary(draft))}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 rounded-md transition-colors"
+        >
+          Save Glossary
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryDialog;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ParseReport } from '../types';
+import { AlertTriangle, XCircle, X, FileWarning } from 'lucide-react';
+
+interface ImportReportDialogProps {
+  fileName: string;
+  report: ParseReport;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ImportReportDialog: React.FC<ImportReportDialogProps> = ({
+  fileName,
+  report,
+  onConfirm,
+  onCancel,
+}) => {
+  const errorCount = report.diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = report.diagnostics.length - errorCount;
+  const canImport = report.cues.length > 0;
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[#18181b] border border-zinc-800 rounded-lg shadow-2xl w-full max-w-lg p-6 relative flex flex-col max-h-[80vh]">
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+        <div className="flex items-center gap-3 mb-2 text-amber-400">
+          <FileWarning size={24} />
+          <h2 className="text-xl font-bold text-white">Import Report</h2>
+        </div>
+        <p className="text-sm text-zinc-400 mb-4 truncate">
+          {fileName}: {report.cues.length} subtitles recovered, {errorCount} errors, {warningCount} warnings.
+        </p>
+
+        <div className="flex-1 overflow-y-auto border border-zinc-800 rounded-md divide-y divide-zinc-800 mb-4">
+          {report.diagnostics.map((diagnostic, index) => (
+            <div key={index} className="flex items-start gap-3 px-3 py-2 text-xs">
+              {diagnostic.severity === 'error' ? (
+                <XCircle size={14} className="text-red-400 shrink-0 mt-0.5" />
+              ) : (
+                <AlertTriangle size={14} className="text-amber-400 shrink-0 mt-0.5" />
+              )}
+              <span className="text-zinc-500 font-mono shrink-0 w-14">Line {diagnostic.line}</span>
+              <span className="text-zinc-300">{diagnostic.message}</span>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={onCancel}
+            className="w-full bg-zinc-800 hover:bg-zinc-700 text-zinc-200 border border-zinc-700 font-medium py-2 rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            disabled={!canImport}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 rounded-md transition-colors disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed"
+          >
+            {canImport ? `Import ${report.cues.length} Subtitles` : 'Nothing to Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportDialog;
@@ -0,0 +1,173 @@
+import React from 'react';
+import { SubtitleCue, QCProfile, QCIssue } from '../types';
+import { ShieldCheck, AlertTriangle, XCircle, Copy, Trash2, CheckCircle2 } from 'lucide-react';
+import { formatSRTTime } from '../utils/srtParser';
+import { QC_ISSUE_LABELS } from '../utils/qualityCheck';
+
+interface QualityPanelProps {
+  cues: SubtitleCue[];
+  issues: QCIssue[];
+  profiles: QCProfile[];
+  profile: QCProfile;
+  onSelectProfile: (id: string) => void;
+  onSaveProfile: (profile: QCProfile) => void;
+  onDeleteProfile: (id: string) => void;
+  onSeek: (time: number) => void;
+}
+
+const PROFILE_FIELDS: { key: keyof QCProfile; label: string; step: number }[] = [
+  { key: 'maxCps', label: 'Max chars/sec', step: 1 },
+  { key: 'maxCharsPerLine', label: 'Max chars/line', step: 1 },
+  { key: 'maxLines', label: 'Max lines', step: 1 },
+  { key: 'minDuration', label: 'Min duration (s)', step: 0.1 },
+  { key: 'maxDuration', label: 'Max duration (s)', step: 0.5 },
+  { key: 'minGap', label: 'Min gap (s)', step: 0.01 },
+];
+
+const QualityPanel: React.FC<QualityPanelProps> = ({
+  cues,
+  issues,
+  profiles,
+  profile,
+  onSelectProfile,
+  onSaveProfile,
+  onDeleteProfile,
+  onSeek,
+}) => {
+  const cueIndex = new Map<string, number>(cues.map((cue, index) => [cue.id, index] as [string, number]));
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  const counts: Record<string, number> = {};
+  issues.forEach((issue) => {
+    counts[issue.type] = (counts[issue.type] || 0) + 1;
+  });
+
+  const duplicateProfile = () => {
+    onSaveProfile({
+      ...profile,
+      id: `custom-${Date.now()}`,
+      name: `${profile.name} (custom)`,
+      builtIn: false,
+    });
+  };
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-6 bg-[#18181b] text-sm text-zinc-300">
+      {/* Profile */}
+      <div className="space-y-3">
+        <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+          <ShieldCheck size={12} /> Delivery Profile
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            className="flex-1 bg-zinc-800 border border-zinc-700 rounded p-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none"
+            value={profile.id}
+            onChange={(e) => onSelectProfile(e.target.value)}
+          >
+            {profiles.map(p => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={duplicateProfile}
+            className="p-2 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded border border-zinc-700"
+            title="Duplicate as custom profile"
+          >
+            <Copy size={14} />
+          </button>
+          {!profile.builtIn && (
+            <button
+              onClick={() => onDeleteProfile(profile.id)}
+              className="p-2 text-zinc-400 hover:text-red-400 hover:bg-zinc-800 rounded border border-zinc-700"
+              title="Delete custom profile"
+            >
+              <Trash2 size={14} />
+            </button>
+          )}
+        </div>
+
+        {!profile.builtIn && (
+          <input
+            type="text"
+            value={profile.name}
+            onChange={(e) => onSaveProfile({ ...profile, name: e.target.value })}
+            className="w-full bg-zinc-800 border border-zinc-700 rounded p-2 text-xs focus:ring-1 focus:ring-blue-500 outline-none"
+            placeholder="Profile name"
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-2">
+          {PROFILE_FIELDS.map(({ key, label, step }) => (
+            <label key={key} className="space-y-1">
+              <span className="text-[10px] text-zinc-500 block">{label}</span>
+              <input
+                type="number"
+                min="0"
+                step={step}
+                value={Math.round((profile[key] as number) * 1000) / 1000}
+                disabled={profile.builtIn}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!isNaN(value) && value >= 0) onSaveProfile({ ...profile, [key]: value });
+                }}
+                className="w-full bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs focus:ring-1 focus:ring-blue-500 outline-none disabled:opacity-60"
+              />
+            </label>
+          ))}
+        </div>
+        {profile.builtIn && (
+          <p className="text-[10px] text-zinc-600">Built-in profiles are read-only. Duplicate one to customise it.</p>
+        )}
+      </div>
+
+      <div className="h-px bg-zinc-800/50" />
+
+      {/* Summary */}
+      <div className="space-y-3">
+        <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider">
+          {issues.length === 0 ? 'No Issues' : `${issues.length} Issues (${errorCount} errors)`}
+        </h3>
+        {issues.length === 0 ? (
+          <div className="flex items-center gap-2 text-xs text-emerald-400">
+            <CheckCircle2 size={14} /> {cues.length > 0 ? 'All cues pass this profile.' : 'No subtitles to check.'}
+          </div>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-1.5">
+              {Object.entries(counts).map(([type, count]) => (
+                <span key={type} className="text-[10px] px-2 py-0.5 rounded-full bg-zinc-800 border border-zinc-700 text-zinc-400">
+                  {QC_ISSUE_LABELS[type as QCIssue['type']]}: {count}
+                </span>
+              ))}
+            </div>
+            <div className="border border-zinc-800 rounded-md divide-y divide-zinc-800">
+              {issues.map((issue, index) => {
+                const position = cueIndex.get(issue.cueId);
+                const cue = position !== undefined ? cues[position] : undefined;
+                return (
+                  <button
+                    key={index}
+                    onClick={() => cue && onSeek(cue.startTime)}
+                    className="w-full text-left flex items-start gap-2 px-3 py-2 text-xs hover:bg-zinc-800 transition-colors"
+                  >
+                    {issue.severity === 'error' ? (
+                      <XCircle size={12} className="text-red-400 shrink-0 mt-0.5" />
+                    ) : (
+                      <AlertTriangle size={12} className="text-amber-400 shrink-0 mt-0.5" />
+                    )}
+                    <span className="text-zinc-500 font-mono shrink-0">
+                      #{position !== undefined ? position + 1 : '?'} {cue ? formatSRTTime(cue.startTime).split(',')[0] : ''}
+                    </span>
+                    <span className="text-zinc-300">{issue.message}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QualityPanel;
@@ -0,0 +1,192 @@
+import React, { useState, useMemo } from 'react';
+import { SubtitleCue } from '../types';
+import { X, TimerReset, Crosshair } from 'lucide-react';
+import { formatSRTTime, tryParseSRTTime } from '../utils/srtParser';
+import { shiftCues, linearRetime, convertFrameRate, FRAME_RATE_PRESETS } from '../utils/resync';
+
+interface ResyncDialogProps {
+  cues: SubtitleCue[];
+  currentTime: number;
+  onApply: (cues: SubtitleCue[]) => void;
+  onClose: () => void;
+}
+
+type ResyncMode = 'offset' | 'linear' | 'fps';
+
+const PREVIEW_ROWS = 6;
+
+const formatTime = (seconds: number) => formatSRTTime(seconds).replace(',', '.');
+
+const truncate = (text: string, length: number) => (text.length > length ? `${text.slice(0, length)}…` : text);
+
+const ResyncDialog: React.FC<ResyncDialogProps> = ({
+  cues,
+  currentTime,
+  onApply,
+  onClose,
+}) => {
+  const [mode, setMode] = useState<ResyncMode>('offset');
+
+  // Offset
+  const [offset, setOffset] = useState('0');
+  const [afterPlayhead, setAfterPlayhead] = useState(false);
+
+  // Two-point
+  const [anchorA, setAnchorA] = useState(cues[0]?.id || '');
+  const [anchorB, setAnchorB] = useState(cues[cues.length - 1]?.id || '');
+  const [targetA, setTargetA] = useState(cues[0] ? formatTime(cues[0].startTime) : '');
+  const [targetB, setTargetB] = useState(cues.length > 0 ? formatTime(cues[cues.length - 1].startTime) : '');
+
+  // Frame rate
+  const [presetIndex, setPresetIndex] = useState(0);
+
+  const { result, error } = useMemo((): { result: SubtitleCue[] | null; error: string } => {
+    if (mode === 'offset') {
+      const seconds = parseFloat(offset);
+      if (isNaN(seconds)) return { result: null, error: 'Enter the offset in seconds, e.g. -1.5' };
+      return { result: shiftCues(cues, seconds, afterPlayhead ? currentTime : undefined), error: '' };
+    }
+
+    if (mode === 'linear') {
+      const timeA = tryParseSRTTime(targetA);
+      const timeB = tryParseSRTTime(targetB);
+      if (timeA === null || timeB === null) return { result: null, error: 'Correct times must be hh:mm:ss.mmm' };
+      const retimed = linearRetime(cues, { cueId: anchorA, targetTime: timeA }, { cueId: anchorB, targetTime: timeB });
+      if (!retimed) return { result: null, error: 'Pick two different cues whose correct times keep them in order.' };
+      return { result: retimed, error: '' };
+    }
+
+    const preset = FRAME_RATE_PRESETS[presetIndex];
+    return { result: convertFrameRate(cues, preset.from, preset.to), error: '' };
+  }, [mode, offset, afterPlayhead, currentTime, anchorA, anchorB, targetA, targetB, presetIndex, cues]);
+
+  const changed = result
+    ? cues
+        .map((cue, i) => ({ before: cue, after: result[i] }))
+        .filter(({ before, after }) => before.startTime !== after.startTime || before.endTime !== after.endTime)
+    : [];
+
+  const cueOption = (cue: SubtitleCue, index: number) => (
+    <option key={cue.id} value={cue.id} className="bg-zinc-900">
+      #{index + 1} {formatTime(cue.startTime)} {truncate(cue.text, 24)}
+    </option>
+  );
+
+  const tabClass = (tab: ResyncMode) =>
+    `flex-1 py-2 text-xs font-medium transition-colors ${mode === tab ? 'text-blue-400 border-b-2 border-blue-400 bg-zinc-800/50' : 'text-zinc-400 hover:text-zinc-200'}`;
+
+  const inputClass = 'w-full bg-zinc-900 border border-zinc-700 rounded-md px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:outline-none';
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-[#18181b] border border-zinc-800 rounded-lg shadow-2xl w-full max-w-lg p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-zinc-500 hover:text-white"
+        >
+          <X size={20} />
+        </button>
+        <div className="flex items-center gap-3 mb-4 text-blue-400">
+          <TimerReset size={24} />
+          <h2 className="text-xl font-bold text-white">Resync Subtitles</h2>
+        </div>
+
+        <div className="flex border-b border-zinc-800 mb-4">
+          <button onClick={() => setMode('offset')} className={tabClass('offset')}>Offset</button>
+          <button onClick={() => setMode('linear')} className={tabClass('linear')}>Two-Point</button>
+          <button onClick={() => setMode('fps')} className={tabClass('fps')}>Frame Rate</button>
+        </div>
+
+        <div className="space-y-3 mb-4 text-sm">
+          {mode === 'offset' && (
+            <>
+              <div>
+                <label className="block text-xs text-zinc-400 mb-1">Shift by (seconds, negative = earlier)</label>
+                <input type="number" step="0.1" value={offset} onChange={(e) => setOffset(e.target.value)} className={inputClass} />
+              </div>
+              <label className="flex items-center gap-2 text-xs text-zinc-300">
+                <input type="checkbox" checked={afterPlayhead} onChange={(e) => setAfterPlayhead(e.target.checked)} className="accent-blue-500" />
+                Only cues starting after the playhead ({formatTime(currentTime)})
+              </label>
+            </>
+          )}
+
+          {mode === 'linear' && (
+            [
+              { label: 'First anchor', id: anchorA, setId: setAnchorA, target: targetA, setTarget: setTargetA },
+              { label: 'Second anchor', id: anchorB, setId: setAnchorB, target: targetB, setTarget: setTargetB },
+            ].map(({ label, id, setId, target, setTarget }) => (
+              <div key={label} className="grid grid-cols-[1fr_auto] gap-2 items-end">
+                <div>
+                  <label className="block text-xs text-zinc-400 mb-1">{label}</label>
+                  <select value={id} onChange={(e) => setId(e.target.value)} className={inputClass}>
+                    {cues.map(cueOption)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-zinc-400 mb-1">Correct start</label>
+                  <div className="flex items-center gap-1">
+                    <input type="text" value={target} onChange={(e) => setTarget(e.target.value)} className={`${inputClass} w-28 font-mono`} />
+                    <button
+                      onClick={() => setTarget(formatTime(currentTime))}
+                      className="p-2 text-zinc-400 hover:text-white hover:bg-zinc-800 rounded-md"
+                      title="Use playhead"
+                    >
+                      <Crosshair size={14} />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+
+          {mode === 'fps' && (
+            <div>
+              <label className="block text-xs text-zinc-400 mb-1">Subtitles were timed for → video plays at</label>
+              <select value={presetIndex} onChange={(e) => setPresetIndex(Number(e.target.value))} className={inputClass}>
+                {FRAME_RATE_PRESETS.map((preset, index) => (
+                  <option key={preset.label} value={index} className="bg-zinc-900">{preset.label} fps</option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Preview */}
+        <div className="border border-zinc-800 rounded-md mb-4 text-xs">
+          <div className="px-3 py-2 bg-zinc-900/50 text-zinc-500 uppercase font-bold flex justify-between">
+            <span>Preview</span>
+            <span className="normal-case font-normal">{error ? '' : `${changed.length} of ${cues.length} cues change`}</span>
+          </div>
+          {error ? (
+            <p className="px-3 py-2 text-red-400">{error}</p>
+          ) : (
+            <div className="divide-y divide-zinc-800">
+              {changed.slice(0, PREVIEW_ROWS).map(({ before, after }) => (
+                <div key={before.id} className="px-3 py-1.5 flex items-center gap-2 font-mono">
+                  <span className="text-zinc-500">{formatTime(before.startTime)}</span>
+                  <span className="text-zinc-600">→</span>
+                  <span className="text-zinc-200">{formatTime(after.startTime)}</span>
+                  <span className="text-zinc-500 truncate font-sans">{truncate(before.text, 30)}</span>
+                </div>
+              ))}
+              {changed.length > PREVIEW_ROWS && (
+                <p className="px-3 py-1.5 text-zinc-600">…and {changed.length - PREVIEW_ROWS} more</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <button
+          onClick={() => result && onApply(result)}
+          disabled={!result || changed.length === 0}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-medium py-2 rounded-md transition-colors disabled:bg-zinc-800 disabled:text-zinc-500 disabled:cursor-not-allowed"
+        >
+          Apply Resync
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResyncDialog;
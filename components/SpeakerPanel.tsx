@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { SubtitleCue } from '../types';
+import { Users, Merge } from 'lucide-react';
+import { listSpeakers } from '../utils/speakers';
+
+interface SpeakerPanelProps {
+  cues: SubtitleCue[];
+  speakerColors: Record<string, string>;
+  onRename: (from: string, to: string) => void; // renaming onto an existing speaker merges them
+  onColorChange: (speaker: string, color: string) => void;
+}
+
+interface SpeakerRowProps {
+  name: string;
+  color: string;
+  count: number;
+  others: string[];
+  onRename: (to: string) => void;
+  onColorChange: (color: string) => void;
+}
+
+const SpeakerRow: React.FC<SpeakerRowProps> = ({ name, color, count, others, onRename, onColorChange }) => {
+  const [draft, setDraft] = useState(name);
+
+  useEffect(() => {
+    setDraft(name);
+  }, [name]);
+
+  const commit = () => {
+    const next = draft.trim();
+    if (next && next !== name) onRename(next);
+    else setDraft(name);
+  };
+
+  return (
+    <div className="p-3 bg-zinc-900 border border-zinc-800 rounded-lg space-y-2">
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={color}
+          onChange={(e) => onColorChange(e.target.value)}
+          className="h-7 w-7 shrink-0 rounded cursor-pointer bg-transparent border-none"
+          title="Subtitle colour"
+        />
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') e.currentTarget.blur();
+            if (e.key === 'Escape') setDraft(name);
+          }}
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs focus:ring-1 focus:ring-blue-500 outline-none"
+          style={{ color }}
+        />
+        <span className="text-[10px] text-zinc-500 shrink-0">{count} cue{count === 1 ? '' : 's'}</span>
+      </div>
+      {others.length > 0 && (
+        <div className="flex items-center gap-2 text-xs text-zinc-500">
+          <Merge size={12} />
+          <select
+            value=""
+            onChange={(e) => e.target.value && onRename(e.target.value)}
+            className="flex-1 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 outline-none"
+          >
+            <option value="">Merge into…</option>
+            {others.map(other => (
+              <option key={other} value={other}>{other}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const SpeakerPanel: React.FC<SpeakerPanelProps> = ({ cues, speakerColors, onRename, onColorChange }) => {
+  const speakers = listSpeakers(cues);
+  const unlabelled = cues.filter(c => !c.speaker).length;
+
+  return (
+    <div className="h-full overflow-y-auto p-4 space-y-4 bg-[#18181b] text-sm text-zinc-300">
+      <h3 className="text-xs font-bold text-zinc-500 uppercase tracking-wider flex items-center gap-2">
+        <Users size={12} /> Speakers
+      </h3>
+
+      {speakers.length === 0 ? (
+        <p className="text-xs text-zinc-500">
+          No speakers yet. Auto Transcribe labels speakers with Gemini, or type a name in a cue's speaker field.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {speakers.map(speaker => (
+            <SpeakerRow
+              key={speaker}
+              name={speaker}
+              color={speakerColors[speaker]}
+              count={cues.filter(c => c.speaker === speaker).length}
+              others={speakers.filter(s => s !== speaker)}
+              onRename={(to) => onRename(speaker, to)}
+              onColorChange={(color) => onColorChange(speaker, color)}
+            />
+          ))}
+        </div>
+      )}
+
+      {speakers.length > 0 && unlabelled > 0 && (
+        <p className="text-[10px] text-zinc-600">{unlabelled} cue{unlabelled === 1 ? ' has' : 's have'} no speaker.</p>
+      )}
+    </div>
+  );
+};
+
+export default SpeakerPanel;
@@ -1,12 +1,24 @@
-import React from 'react';
-import { SubtitleStyle, AspectRatio } from '../types';
-import { Type, Palette, Layout, ArrowUpFromLine, Eye } from 'lucide-react';
+import React, { useCallback } from 'react';
+import { SubtitleStyle, AspectRatio, ReframeSettings, ReframeMode, PadFill } from '../types';
+import { Type, Palette, Layout, ArrowUpFromLine, Eye, Crop, Diamond } from 'lucide-react';
+import { TEXT_SHADOW_PRESETS, DEFAULT_HIGHLIGHT_COLOR } from '../utils/stylePresets';
+import { focusAt, setFocusAt } from '../utils/reframe';
+import { drawSubtitleBlock, measureSubtitleBlock } from '../utils/subtitleRenderer';
+import SubtitleCanvas from './SubtitleCanvas';
+
+export type StyleTarget = 'primary' | 'secondary';
 
 interface StyleControlsProps {
   style: SubtitleStyle;
   onChange: (updates: Partial<SubtitleStyle>) => void;
   aspectRatio: AspectRatio;
   onAspectRatioChange: (ratio: AspectRatio) => void;
+  reframe: ReframeSettings;
+  onReframeChange: (reframe: ReframeSettings) => void;
+  currentTime: number; // where crop keyframes are set
+  // Dual-subtitle mode: which track's style is being edited; the switch is hidden when unset
+  styleTarget?: StyleTarget;
+  onStyleTargetChange?: (target: StyleTarget) => void;
 }
 
 const StyleControls: React.FC<StyleControlsProps> = ({
@@ -14,9 +26,45 @@ const StyleControls: React.FC<StyleControlsProps> = ({
   onChange,
   aspectRatio,
   onAspectRatioChange,
+  reframe,
+  onReframeChange,
+  currentTime,
+  styleTarget = 'primary',
+  onStyleTargetChange,
 }) => {
+  const focus = focusAt(reframe.focus, currentTime);
+
+  // Drawn by the player's renderer at the size it has in a 600px tall player; karaoke shows on the second word
+  const renderPreview = useCallback((ctx: CanvasRenderingContext2D, width: number, height: number, pixelRatio: number) => {
+    const block = { text: 'Sample Subtitle', style, color: style.color, activeWord: style.karaoke ? 1 : -1 };
+    const blockHeight = measureSubtitleBlock(ctx, block, width, pixelRatio);
+    drawSubtitleBlock(ctx, block, width, (height + blockHeight) / 2, pixelRatio);
+  }, [style]);
+
+  const optionClass = (selected: boolean) =>
+    `px-3 py-2 rounded-md border text-center transition-all text-xs ${
+      selected ? 'bg-blue-600/10 border-blue-600 text-blue-400' : 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700'
+    }`;
+
   return (
     <div className="h-full overflow-y-auto p-4 space-y-6 bg-[#18181b] text-sm text-zinc-300">
+      {onStyleTargetChange && (
+        <div className="grid grid-cols-2 gap-2">
+          {(['primary', 'secondary'] as StyleTarget[]).map((target) => (
+            <button
+              key={target}
+              onClick={() => onStyleTargetChange(target)}
+              className={`px-3 py-2 rounded-md border text-center transition-all text-xs ${
+                styleTarget === target
+                  ? 'bg-blue-600/10 border-blue-600 text-blue-400'
+                  : 'bg-zinc-800 border-zinc-700 hover:bg-zinc-700'
+              }`}
+            >
+              {target === 'primary' ? 'Main Track' : 'Second Track'}
+            </button>
+          ))}
+        </div>
+      )}
       
       {/* Preview Section */}
       <div className="space-y-4">
@@ -31,27 +79,7 @@ const StyleControls: React.FC<StyleControlsProps> = ({
               backgroundPosition: '0 0, 0 10px, 10px -10px, -10px 0px'
            }}/>
            
-           <span
-            className="transition-all duration-200"
-            style={{
-                fontSize: `${style.fontSize}px`,
-                color: style.color,
-                backgroundColor: style.backgroundColor,
-                fontFamily: style.fontFamily,
-                textShadow: style.textShadow,
-                opacity: style.opacity,
-                padding: '4px 8px',
-                borderRadius: '4px',
-                whiteSpace: 'nowrap',
-                maxWidth: '90%',
-                overflow: 'hidden',
-                textOverflow: 'ellipsis',
-                zIndex: 10,
-                textAlign: 'center'
-            }}
-           >
-            Sample Subtitle
-           </span>
+           <SubtitleCanvas render={renderPreview} className="absolute inset-0 w-full h-full z-10" />
            <div className="absolute bottom-1 right-2 text-[10px] text-zinc-600 opacity-0 group-hover:opacity-100 transition-opacity">
               Preview
            </div>
@@ -86,7 +114,75 @@ const StyleControls: React.FC<StyleControlsProps> = ({
            </div>
         </div>
 
+        {/* Reframing: how the video fills the chosen aspect ratio, in the player and the burned video */}
+        <div className="space-y-2">
+           <label className="text-xs text-zinc-400 flex items-center gap-2"><Crop size={12} /> Reframe</label>
+           <div className="grid grid-cols-2 gap-2">
+              {(['crop', 'pad'] as ReframeMode[]).map((mode) => (
+                <button key={mode} onClick={() => onReframeChange({ ...reframe, mode })} className={optionClass(reframe.mode === mode)}>
+                  {mode === 'crop' ? 'Crop' : 'Fit with Padding'}
+                </button>
+              ))}
+           </div>
+
+           {reframe.mode === 'crop' ? (
+             <div className="space-y-2">
+                <div className="flex justify-between items-center">
+                    <span className="text-xs text-zinc-400">Focus (left to right)</span>
+                    <span className="text-xs text-zinc-500 font-mono">{Math.round(focus * 100)}%</span>
+                </div>
+                <input
+                    type="range"
+                    min="0"
+                    max="100"
+                    step="1"
+                    value={Math.round(focus * 100)}
+                    onChange={(e) => onReframeChange({ ...reframe, focus: setFocusAt(reframe.focus, currentTime, Number(e.target.value) / 100) })}
+                    className="w-full h-1.5 bg-zinc-700 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
+                />
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => onReframeChange({ ...reframe, focus: setFocusAt(reframe.focus, currentTime, focus, true) })}
+                        className="flex items-center gap-1.5 px-2.5 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-xs rounded-md transition-colors"
+                        title="Keep the focus here at the playhead; the crop pans between keyframes"
+                    >
+                        <Diamond size={12} /> Keyframe at Playhead
+                    </button>
+                    {reframe.focus.length > 1 && (
+                      <button
+                          onClick={() => onReframeChange({ ...reframe, focus: [{ time: 0, x: focus }] })}
+                          className="text-xs text-zinc-500 hover:text-zinc-300"
+                      >
+                          Clear {reframe.focus.length} keyframes
+                      </button>
+                    )}
+                </div>
+                <p className="text-[10px] text-zinc-600">Drag the video sideways in the player to move the crop.</p>
+             </div>
+           ) : (
+             <div className="flex items-center gap-2">
+                {(['blur', 'solid'] as PadFill[]).map((padFill) => (
+                  <button key={padFill} onClick={() => onReframeChange({ ...reframe, padFill })} className={`flex-1 ${optionClass(reframe.padFill === padFill)}`}>
+                    {padFill === 'blur' ? 'Blurred Fill' : 'Solid Fill'}
+                  </button>
+                ))}
+                {reframe.padFill === 'solid' && (
+                  <input
+                    type="color"
+                    value={reframe.padColor}
+                    onChange={(e) => onReframeChange({ ...reframe, padColor: e.target.value })}
+                    className="w-6 h-6 rounded cursor-pointer bg-transparent border-none p-0 shrink-0"
+                    title="Padding colour"
+                  />
+                )}
+             </div>
+           )}
+        </div>
+
         {/* Vertical Position */}
+        {styleTarget === 'secondary' ? (
+          <p className="text-[10px] text-zinc-600">The second track sits directly above the main track.</p>
+        ) : (
         <div className="space-y-2">
             <div className="flex justify-between items-center">
                 <label className="text-xs text-zinc-400 flex items-center gap-2">
@@ -120,6 +216,7 @@ const StyleControls: React.FC<StyleControlsProps> = ({
                 />
             </div>
         </div>
+        )}
       </div>
 
       <div className="h-px bg-zinc-800/50" />
@@ -205,12 +302,34 @@ const StyleControls: React.FC<StyleControlsProps> = ({
              value={style.textShadow}
              onChange={(e) => onChange({ textShadow: e.target.value })}
            >
-             <option value="none">None</option>
-             <option value="2px 2px 4px rgba(0,0,0,0.8)">Drop Shadow</option>
-             <option value="-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000">Outline (Stroke)</option>
-             <option value="0 0 5px rgba(0,0,0,1)">Glow</option>
+             <option value={TEXT_SHADOW_PRESETS.none}>None</option>
+             <option value={TEXT_SHADOW_PRESETS.drop}>Drop Shadow</option>
+             <option value={TEXT_SHADOW_PRESETS.outline}>Outline (Stroke)</option>
+             <option value={TEXT_SHADOW_PRESETS.glow}>Glow</option>
            </select>
         </div>
+
+        <div className="flex items-center justify-between">
+          <label className="text-xs text-zinc-400 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={!!style.karaoke}
+              onChange={(e) => onChange({ karaoke: e.target.checked })}
+              className="accent-blue-500"
+            />
+            Highlight Spoken Word
+          </label>
+          <input
+            type="color"
+            value={style.highlightColor || DEFAULT_HIGHLIGHT_COLOR}
+            onChange={(e) => onChange({ highlightColor: e.target.value })}
+            disabled={!style.karaoke}
+            className="w-6 h-6 rounded cursor-pointer bg-transparent border-none p-0 disabled:opacity-40"
+          />
+        </div>
+        {style.karaoke && (
+          <p className="text-[10px] text-zinc-600">Applies to cues with word timings from transcription.</p>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,70 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface SubtitleCanvasProps {
+  // Draws onto the cleared canvas; width and height are in device pixels, pixelRatio is device pixels per CSS pixel.
+  // videoTime is the time of the frame `video` is showing, when there is one.
+  render: (ctx: CanvasRenderingContext2D, width: number, height: number, pixelRatio: number, videoTime?: number) => void;
+  // Video to follow: the canvas redraws for every frame it presents
+  video?: HTMLVideoElement | null;
+  className?: string;
+}
+
+// A canvas that fills its box at the screen's pixel density and redraws whenever `render` or its size changes,
+// and with every frame of `video`
+const SubtitleCanvas: React.FC<SubtitleCanvasProps> = ({ render, video, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0 || size.height === 0) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * pixelRatio);
+    canvas.height = Math.round(size.height * pixelRatio);
+
+    const draw = (videoTime?: number) => {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      render(ctx, canvas.width, canvas.height, pixelRatio, videoTime);
+    };
+    draw(video?.currentTime);
+    if (!video) return;
+
+    // timeupdate only fires a few times a second; following the frames keeps cue changes and word
+    // highlights on the frame they belong to, as in the burned video
+    let handle: number;
+    if ('requestVideoFrameCallback' in video) {
+      const onFrame = (_: number, metadata: VideoFrameCallbackMetadata) => {
+        draw(metadata.mediaTime);
+        handle = video.requestVideoFrameCallback(onFrame);
+      };
+      handle = video.requestVideoFrameCallback(onFrame);
+      return () => video.cancelVideoFrameCallback(handle);
+    }
+
+    let lastTime = video.currentTime;
+    const onTick = () => {
+      if (video.currentTime !== lastTime) {
+        lastTime = video.currentTime;
+        draw(lastTime);
+      }
+      handle = requestAnimationFrame(onTick);
+    };
+    handle = requestAnimationFrame(onTick);
+    return () => cancelAnimationFrame(handle);
+  }, [render, size, video]);
+
+  return <canvas ref={canvasRef} className={`pointer-events-none ${className}`} />;
+};
+
+export default SubtitleCanvas;
@@ -1,7 +1,48 @@
-import React, { useRef, useEffect } from 'react';
-import { SubtitleCue } from '../types';
-import { Trash2, Plus, Clock, Undo2, Redo2 } from 'lucide-react';
-import { formatSRTTime } from '../utils/srtParser';
+import React, { useRef, useEffect, useState } from 'react';
+import { SubtitleCue, QCIssue } from '../types';
+import { Trash2, Plus, Clock, Undo2, Redo2, Crosshair, Scissors, Merge, CheckSquare, Square, Search, TimerReset } from 'lucide-react';
+import { formatSRTTime, tryParseSRTTime } from '../utils/srtParser';
+import { DEFAULT_FRAME_RATE, roundTime, validateCueTiming } from '../utils/cueTiming';
+import { canMergeCues } from '../utils/cueOperations';
+
+type CueEdge = 'startTime' | 'endTime';
+
+interface TimeInputProps {
+  value: number;
+  title: string;
+  invalid: boolean;
+  onCommit: (text: string) => void;
+}
+
+// Text field that keeps a local draft while focused and only commits on Enter/blur
+const TimeInput: React.FC<TimeInputProps> = ({ value, title, invalid, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const formatted = formatSRTTime(value).replace(',', '.');
+
+  const commit = () => {
+    if (draft !== null && draft !== formatted) onCommit(draft);
+    setDraft(null);
+  };
+
+  return (
+    <input
+      type="text"
+      className={`bg-transparent w-20 font-mono hover:text-white focus:text-white focus:outline-none ${invalid ? 'text-red-400' : ''}`}
+      value={draft ?? formatted}
+      onFocus={() => setDraft(formatted)}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') e.currentTarget.blur();
+        if (e.key === 'Escape') {
+          setDraft(null);
+          e.currentTarget.blur();
+        }
+      }}
+      title={title}
+    />
+  );
+};
 
 interface SubtitleEditorProps {
   cues: SubtitleCue[];
@@ -9,11 +50,21 @@ interface SubtitleEditorProps {
   onUpdateCue: (id: string, updates: Partial<SubtitleCue>) => void;
   onDeleteCue: (id: string) => void;
   onAddCue: () => void;
+  onSplitCue: (id: string, textIndex: number | null) => void;
+  onMergeCues: (ids: string[]) => void;
+  onToggleFind: () => void;
+  onOpenResync: () => void;
+  findPanel?: React.ReactNode; // rendered under the header when find/replace is open
+  trackSwitcher?: React.ReactNode; // rendered above the header to pick which track is edited
   onSeek: (time: number) => void;
+  duration: number;
+  frameRate?: number;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
   canRedo: boolean;
+  issuesByCue?: Record<string, QCIssue[]>; // quality-control flags shown on each card
+  speakerColors?: Record<string, string>; // known speakers and their subtitle colours
 }
 
 const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
@@ -22,13 +73,100 @@ const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
   onUpdateCue,
   onDeleteCue,
   onAddCue,
+  onSplitCue,
+  onMergeCues,
+  onToggleFind,
+  onOpenResync,
+  findPanel,
+  trackSwitcher,
   onSeek,
+  duration,
+  frameRate = DEFAULT_FRAME_RATE,
   onUndo,
   onRedo,
   canUndo,
   canRedo,
+  issuesByCue = {},
+  speakerColors = {},
 }) => {
   const activeCueRef = useRef<HTMLDivElement>(null);
+  // Caret position of each cue's textarea, remembered so toolbar clicks can split at it
+  const caretRef = useRef<Record<string, number>>({});
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Last rejected timing edit per cue, shown under its time fields
+  const [timingErrors, setTimingErrors] = useState<Record<string, string>>({});
+
+  const setTimingError = (id: string, message: string | null) => {
+    setTimingErrors(prev => {
+      if (!message) {
+        if (!(id in prev)) return prev;
+        const { [id]: _removed, ...rest } = prev;
+        return rest;
+      }
+      return { ...prev, [id]: message };
+    });
+  };
+
+  // Every timing change is validated here and goes through onUpdateCue, so it lands in undo history
+  const applyTiming = (cue: SubtitleCue, edge: CueEdge, seconds: number) => {
+    const updates = { [edge]: roundTime(seconds) } as Pick<SubtitleCue, CueEdge>;
+    const next = { ...cue, ...updates };
+    const error = validateCueTiming(cues, cue.id, next.startTime, next.endTime, duration);
+    setTimingError(cue.id, error);
+    if (!error) onUpdateCue(cue.id, updates);
+  };
+
+  const handleTimeText = (cue: SubtitleCue, edge: CueEdge, text: string) => {
+    const seconds = tryParseSRTTime(text);
+    if (seconds === null) {
+      setTimingError(cue.id, `"${text}" is not a valid time. Use hh:mm:ss.mmm.`);
+      return;
+    }
+    applyTiming(cue, edge, seconds);
+  };
+
+  // Ignore selected ids whose cues were deleted or merged away
+  const selection = selectedIds.filter(id => cues.some(c => c.id === id));
+  const canMergeSelection = canMergeCues(cues, selection);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleMergeSelection = () => {
+    onMergeCues(selection);
+    setSelectedIds([]);
+  };
+
+  const frame = 1 / frameRate;
+  const nudges = [
+    { label: '-1f', delta: -frame, title: 'Back one frame' },
+    { label: '-.1', delta: -0.1, title: 'Back 100 ms' },
+    { label: '+.1', delta: 0.1, title: 'Forward 100 ms' },
+    { label: '+1f', delta: frame, title: 'Forward one frame' },
+  ];
+
+  const renderNudges = (cue: SubtitleCue, edge: CueEdge) => (
+    <div className="flex items-center gap-0.5">
+      {nudges.map(({ label, delta, title }) => (
+        <button
+          key={label}
+          onClick={() => applyTiming(cue, edge, cue[edge] + delta)}
+          className="px-1 py-0.5 text-[10px] font-mono text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+          title={`${title} (${edge === 'startTime' ? 'start' : 'end'})`}
+        >
+          {label}
+        </button>
+      ))}
+      <button
+        onClick={() => applyTiming(cue, edge, currentTime)}
+        className="p-1 text-zinc-500 hover:text-white hover:bg-zinc-700 rounded transition-colors"
+        title={`Set ${edge === 'startTime' ? 'start' : 'end'} to playhead`}
+      >
+        <Crosshair size={10} />
+      </button>
+    </div>
+  );
 
   // Auto-scroll to active cue
   useEffect(() => {
@@ -39,6 +177,8 @@ const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
 
   return (
     <div className="flex flex-col h-full bg-[#18181b] border-l border-zinc-800">
+      {trackSwitcher}
+
       <div className="p-4 border-b border-zinc-800 flex justify-between items-center bg-[#18181b] z-10">
         <div className="flex items-center gap-4">
             <h2 className="text-lg font-semibold text-white">Subtitles</h2>
@@ -61,15 +201,50 @@ const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
                     <Redo2 size={14} />
                 </button>
             </div>
+            <button
+                onClick={onToggleFind}
+                className={`p-1.5 rounded-md border transition-colors ${findPanel ? 'bg-blue-600/10 border-blue-600 text-blue-400' : 'bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700'}`}
+                title="Find & Replace (Ctrl+F)"
+            >
+                <Search size={14} />
+            </button>
+            <button
+                onClick={onOpenResync}
+                disabled={cues.length === 0}
+                className="p-1.5 rounded-md border bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700 disabled:opacity-30 transition-colors"
+                title="Resync timings"
+            >
+                <TimerReset size={14} />
+            </button>
+        </div>
+        <div className="flex items-center gap-2">
+          {selection.length >= 2 && (
+            <button
+              onClick={handleMergeSelection}
+              disabled={!canMergeSelection}
+              className="flex items-center gap-1.5 px-2.5 py-1.5 bg-zinc-800 hover:bg-zinc-700 border border-zinc-700 text-zinc-200 text-sm rounded-md transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title={canMergeSelection ? 'Merge selected subtitles' : 'Only adjacent subtitles can be merged'}
+            >
+              <Merge size={14} /> {selection.length}
+            </button>
+          )}
+          <button
+            onClick={onAddCue}
+            className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md transition-colors"
+          >
+            <Plus size={16} /> Add Line
+          </button>
         </div>
-        <button
-          onClick={onAddCue}
-          className="flex items-center gap-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md transition-colors"
-        >
-          <Plus size={16} /> Add Line
-        </button>
       </div>
 
+      {findPanel}
+
+      <datalist id="cue-speakers">
+        {Object.keys(speakerColors).map(speaker => (
+          <option key={speaker} value={speaker} />
+        ))}
+      </datalist>
+
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {cues.length === 0 && (
             <div className="text-center text-zinc-500 mt-10">
@@ -77,8 +252,10 @@ const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
                 <p className="text-sm">Upload a video to auto-generate.</p>
             </div>
         )}
-        {cues.map((cue) => {
+        {cues.map((cue, index) => {
           const isActive = currentTime >= cue.startTime && currentTime <= cue.endTime;
+          const isSelected = selection.includes(cue.id);
+          const next = cues[index + 1];
           return (
             <div
               key={cue.id}
@@ -86,26 +263,55 @@ const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
               className={`relative p-3 rounded-lg border transition-all duration-200 group ${
                 isActive
                   ? 'bg-zinc-800 border-blue-500 ring-1 ring-blue-500/20'
+                  : isSelected
+                  ? 'bg-zinc-900 border-indigo-500/60'
                   : 'bg-zinc-900 border-zinc-800 hover:border-zinc-700'
               }`}
             >
-              <div className="flex items-center gap-2 mb-2 text-xs text-zinc-400">
-                <Clock size={12} />
-                <input
-                  type="text"
-                  className="bg-transparent w-20 hover:text-white focus:text-white focus:outline-none"
-                  value={formatSRTTime(cue.startTime).replace(',', '.')}
-                  onChange={() => {}} // Read-only for simplicity in this demo, real app would parse text back to seconds
+              <div className="flex items-center gap-2 mb-1 text-xs text-zinc-400">
+                <button
                   onClick={() => onSeek(cue.startTime)}
+                  className="hover:text-white transition-colors"
                   title="Jump to start"
+                >
+                  <Clock size={12} />
+                </button>
+                <TimeInput
+                  value={cue.startTime}
+                  title="Start time"
+                  invalid={!!timingErrors[cue.id]}
+                  onCommit={(text) => handleTimeText(cue, 'startTime', text)}
                 />
                 <span>→</span>
+                <TimeInput
+                  value={cue.endTime}
+                  title="End time"
+                  invalid={!!timingErrors[cue.id]}
+                  onCommit={(text) => handleTimeText(cue, 'endTime', text)}
+                />
+              </div>
+
+              <div className={`flex items-center justify-between mb-2 ${isActive ? '' : 'hidden group-hover:flex'}`}>
+                {renderNudges(cue, 'startTime')}
+                {renderNudges(cue, 'endTime')}
+              </div>
+
+              {timingErrors[cue.id] && (
+                <p className="text-[10px] text-red-400 mb-2">{timingErrors[cue.id]}</p>
+              )}
+
+              <div className="flex items-center gap-1.5 mb-1">
+                <span
+                  className="w-2 h-2 rounded-full shrink-0"
+                  style={{ backgroundColor: (cue.speaker && speakerColors[cue.speaker]) || '#3f3f46' }}
+                />
                 <input
                   type="text"
-                  className="bg-transparent w-20 hover:text-white focus:text-white focus:outline-none"
-                  value={formatSRTTime(cue.endTime).replace(',', '.')}
-                  onChange={() => {}}
-                  title="End time"
+                  list="cue-speakers"
+                  value={cue.speaker || ''}
+                  onChange={(e) => onUpdateCue(cue.id, { speaker: e.target.value || undefined })}
+                  placeholder="Speaker"
+                  className="w-32 bg-transparent text-[11px] text-zinc-400 placeholder-zinc-600 focus:text-zinc-100 focus:outline-none"
                 />
               </div>
 
@@ -113,16 +319,55 @@ const SubtitleEditor: React.FC<SubtitleEditorProps> = ({
                 className="w-full bg-transparent text-zinc-100 text-sm resize-none focus:outline-none min-h-[40px]"
                 value={cue.text}
                 onChange={(e) => onUpdateCue(cue.id, { text: e.target.value })}
+                onSelect={(e) => { caretRef.current[cue.id] = e.currentTarget.selectionStart; }}
                 rows={2}
                 placeholder="Subtitle text..."
               />
 
-              <button
-                onClick={() => onDeleteCue(cue.id)}
-                className="absolute top-2 right-2 p-1.5 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-              >
-                <Trash2 size={14} />
-              </button>
+              {issuesByCue[cue.id] && (
+                <ul className="mt-1 space-y-0.5">
+                  {issuesByCue[cue.id].map((issue, i) => (
+                    <li
+                      key={i}
+                      className={`text-[10px] ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+                    >
+                      {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="absolute top-2 right-2 flex items-center gap-0.5">
+                <button
+                  onClick={() => toggleSelected(cue.id)}
+                  className={`p-1.5 transition-opacity ${isSelected ? 'text-indigo-400' : 'text-zinc-500 hover:text-zinc-200 opacity-0 group-hover:opacity-100'}`}
+                  title={isSelected ? 'Deselect' : 'Select for merging'}
+                >
+                  {isSelected ? <CheckSquare size={14} /> : <Square size={14} />}
+                </button>
+                <button
+                  onClick={() => onSplitCue(cue.id, caretRef.current[cue.id] ?? null)}
+                  className="p-1.5 text-zinc-500 hover:text-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                  title="Split at cursor / playhead"
+                >
+                  <Scissors size={14} />
+                </button>
+                {next && (
+                  <button
+                    onClick={() => onMergeCues([cue.id, next.id])}
+                    className="p-1.5 text-zinc-500 hover:text-zinc-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                    title="Merge with next"
+                  >
+                    <Merge size={14} />
+                  </button>
+                )}
+                <button
+                  onClick={() => onDeleteCue(cue.id)}
+                  className="p-1.5 text-zinc-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
             </div>
           );
         })}
@@ -0,0 +1,139 @@
+import React, { useState, useEffect } from 'react';
+import { SubtitleTrack } from '../types';
+import { Layers, Plus, Trash2, Link2, Rows2 } from 'lucide-react';
+import { trackLabel } from '../utils/tracks';
+
+interface TrackSwitcherProps {
+  tracks: SubtitleTrack[];
+  activeTrackId: string;
+  secondaryTrackId: string | null;
+  onSelect: (id: string) => void;
+  onAdd: () => void;
+  onUpdate: (id: string, updates: Pick<SubtitleTrack, 'name' | 'language'>) => void;
+  onDelete: (id: string) => void;
+  onLinkTiming: (id: string, sourceId: string | null) => void;
+  onSecondaryChange: (id: string | null) => void;
+}
+
+const selectClass = "flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-xs text-zinc-300 outline-none";
+
+const TrackSwitcher: React.FC<TrackSwitcherProps> = ({
+  tracks,
+  activeTrackId,
+  secondaryTrackId,
+  onSelect,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onLinkTiming,
+  onSecondaryChange,
+}) => {
+  const active = tracks.find(t => t.id === activeTrackId) || tracks[0];
+  const [name, setName] = useState(active.name);
+  const [language, setLanguage] = useState(active.language);
+
+  useEffect(() => {
+    setName(active.name);
+    setLanguage(active.language);
+  }, [active.id, active.name, active.language]);
+
+  const commit = () => {
+    const next = { name: name.trim() || active.name, language: language.trim() };
+    setName(next.name);
+    setLanguage(next.language);
+    if (next.name !== active.name || next.language !== active.language) onUpdate(active.id, next);
+  };
+
+  // Only group roots can be linked to, and never the track's own group
+  const timingOptions = tracks.filter(t => !t.timingSource && t.id !== active.id);
+  const others = tracks.filter(t => t.id !== active.id);
+
+  return (
+    <div className="px-4 py-3 border-b border-zinc-800 space-y-2 text-xs">
+      <div className="flex items-center gap-2">
+        <Layers size={14} className="text-zinc-500 shrink-0" />
+        <select
+          value={active.id}
+          onChange={(e) => onSelect(e.target.value)}
+          className={`${selectClass} text-sm text-zinc-200`}
+          title="Subtitle track"
+        >
+          {tracks.map(track => (
+            <option key={track.id} value={track.id}>{trackLabel(track)}</option>
+          ))}
+        </select>
+        <button
+          onClick={onAdd}
+          className="p-1.5 rounded-md border bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-white hover:bg-zinc-700 transition-colors"
+          title="New empty track"
+        >
+          <Plus size={14} />
+        </button>
+        <button
+          onClick={() => onDelete(active.id)}
+          disabled={tracks.length < 2}
+          className="p-1.5 rounded-md border bg-zinc-800 border-zinc-700 text-zinc-400 hover:text-red-400 hover:bg-zinc-700 disabled:opacity-30 disabled:hover:text-zinc-400 transition-colors"
+          title="Delete track"
+        >
+          <Trash2 size={14} />
+        </button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          className="flex-1 min-w-0 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-zinc-200 focus:ring-1 focus:ring-blue-500 outline-none"
+          title="Track name"
+        />
+        <input
+          type="text"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+          placeholder="lang"
+          className="w-14 bg-zinc-800 border border-zinc-700 rounded px-2 py-1 text-zinc-200 font-mono focus:ring-1 focus:ring-blue-500 outline-none"
+          title="Language code, e.g. en or vi"
+        />
+      </div>
+
+      <div className="flex items-center gap-2 text-zinc-500">
+        <Link2 size={12} className="shrink-0" />
+        <select
+          value={active.timingSource || ''}
+          onChange={(e) => onLinkTiming(active.id, e.target.value || null)}
+          className={selectClass}
+          title="Tracks that share timing move together when cue times are edited"
+        >
+          <option value="">Independent timing</option>
+          {timingOptions.map(track => (
+            <option key={track.id} value={track.id}>Timing of {trackLabel(track)}</option>
+          ))}
+        </select>
+      </div>
+
+      {others.length > 0 && (
+        <div className="flex items-center gap-2 text-zinc-500">
+          <Rows2 size={12} className="shrink-0" />
+          <select
+            value={secondaryTrackId && secondaryTrackId !== active.id ? secondaryTrackId : ''}
+            onChange={(e) => onSecondaryChange(e.target.value || null)}
+            className={selectClass}
+            title="Show a second track above this one in the player and burned video"
+          >
+            <option value="">Single subtitles</option>
+            {others.map(track => (
+              <option key={track.id} value={track.id}>Dual with {trackLabel(track)}</option>
+            ))}
+          </select>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrackSwitcher;
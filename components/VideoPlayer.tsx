@@ -1,5 +1,8 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useMemo, useCallback, useState } from 'react';
 import { VideoState, SubtitleCue, SubtitleStyle } from '../types';
+import { focusAt } from '../utils/reframe';
+import { createSubtitleRenderer } from '../utils/subtitleRenderer';
+import SubtitleCanvas from './SubtitleCanvas';
 
 interface VideoPlayerProps {
   videoState: VideoState;
@@ -8,9 +11,15 @@ interface VideoPlayerProps {
   onEnded: () => void;
   cues: SubtitleCue[];
   style: SubtitleStyle;
+  secondaryCues?: SubtitleCue[]; // dual-subtitle mode: shown stacked above `cues`
+  secondaryStyle?: SubtitleStyle;
   isPlaying: boolean;
+  onFocusChange?: (x: number) => void; // crop reframing: the video was dragged sideways
 }
 
+// Blurred copy behind padded video; resynced when it drifts further than this from the main video
+const BACKDROP_MAX_DRIFT = 0.3;
+
 const VideoPlayer: React.FC<VideoPlayerProps> = ({
   videoState,
   onTimeUpdate,
@@ -18,20 +27,58 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   onEnded,
   cues,
   style,
+  secondaryCues,
+  secondaryStyle,
   isPlaying,
+  onFocusChange,
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
+  // Also kept in state, so the subtitle canvas starts following a video that mounts later
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+  const attachVideo = useCallback((video: HTMLVideoElement | null) => {
+    videoRef.current = video;
+    setVideoElement(video);
+  }, []);
+  const backdropRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startX: number; startFocus: number } | null>(null);
+
+  const { reframe } = videoState;
+  const focus = focusAt(reframe.focus, videoState.currentTime);
+  const blurBackdrop = reframe.mode === 'pad' && reframe.padFill === 'blur';
 
   useEffect(() => {
-    if (videoRef.current) {
+    [videoRef.current, backdropRef.current].forEach((video) => {
+      if (!video) return;
       if (isPlaying) {
-        videoRef.current.play().catch(e => console.log('Play interrupted', e));
+        video.play().catch(e => console.log('Play interrupted', e));
       } else {
-        videoRef.current.pause();
+        video.pause();
       }
-    }
-  }, [isPlaying]);
+    });
+  }, [isPlaying, blurBackdrop]);
+
+  const syncBackdrop = (time: number) => {
+    const backdrop = backdropRef.current;
+    if (backdrop && Math.abs(backdrop.currentTime - time) > BACKDROP_MAX_DRIFT) backdrop.currentTime = time;
+  };
+
+  // Dragging moves the crop the way the picture moves, so dragging right reveals more of the left side
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (reframe.mode !== 'crop' || !onFocusChange) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startFocus: focus };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const video = videoRef.current;
+    const container = containerRef.current;
+    if (!dragRef.current || !video || !container || !onFocusChange || !video.videoHeight) return;
+    const shownWidth = (container.clientHeight * video.videoWidth) / video.videoHeight;
+    const overflow = shownWidth - container.clientWidth;
+    if (overflow <= 1) return;
+    onFocusChange(dragRef.current.startFocus - (e.clientX - dragRef.current.startX) / overflow);
+  };
 
   useEffect(() => {
     if (videoRef.current && Math.abs(videoRef.current.currentTime - videoState.currentTime) > 0.5) {
@@ -39,8 +86,15 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   }, [videoState.currentTime]);
 
-  const activeCue = cues.find(
-    (c) => videoState.currentTime >= c.startTime && videoState.currentTime <= c.endTime
+  // Same renderer as the burned video, drawn over the reframed frame at the time of the frame on screen
+  const drawSubtitles = useMemo(
+    () => createSubtitleRenderer(cues, style, secondaryCues && secondaryStyle ? { cues: secondaryCues, style: secondaryStyle } : undefined),
+    [cues, style, secondaryCues, secondaryStyle]
+  );
+  const renderOverlay = useCallback(
+    (ctx: CanvasRenderingContext2D, width: number, height: number, _: number, videoTime: number = 0) =>
+      drawSubtitles(ctx, width, height, videoTime),
+    [drawSubtitles]
   );
 
   // Aspect ratio styles
@@ -55,13 +109,33 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
   };
 
   return (
-    <div className={`relative bg-black rounded-lg overflow-hidden shadow-2xl mx-auto transition-all duration-300 ${getAspectRatioStyle()}`} ref={containerRef}>
+    <div
+      className={`relative bg-black rounded-lg overflow-hidden shadow-2xl mx-auto transition-all duration-300 ${getAspectRatioStyle()} ${reframe.mode === 'crop' && onFocusChange ? 'cursor-ew-resize' : ''}`}
+      style={reframe.mode === 'pad' && reframe.padFill === 'solid' ? { backgroundColor: reframe.padColor } : undefined}
+      ref={containerRef}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => { dragRef.current = null; }}
+    >
+      {videoState.url && blurBackdrop && (
+        <video
+          ref={backdropRef}
+          src={videoState.url}
+          className="absolute inset-0 w-full h-full object-cover blur-xl scale-110 pointer-events-none"
+          muted
+          playsInline
+        />
+      )}
       {videoState.url ? (
         <video
-          ref={videoRef}
+          ref={attachVideo}
           src={videoState.url}
-          className="w-full h-full object-contain"
-          onTimeUpdate={(e) => onTimeUpdate(e.currentTarget.currentTime)}
+          className={`relative w-full h-full ${reframe.mode === 'crop' ? 'object-cover' : 'object-contain'}`}
+          style={reframe.mode === 'crop' ? { objectPosition: `${focus * 100}% 50%` } : undefined}
+          onTimeUpdate={(e) => {
+            onTimeUpdate(e.currentTarget.currentTime);
+            syncBackdrop(e.currentTarget.currentTime);
+          }}
           onDurationChange={(e) => onDurationChange(e.currentTarget.duration)}
           onEnded={onEnded}
           playsInline
@@ -73,30 +147,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({
       )}
 
       {/* Subtitle Overlay */}
-      {activeCue && (
-        <div
-          className="absolute left-0 right-0 text-center pointer-events-none px-4 flex justify-center w-full"
-          style={{
-            bottom: `${style.position}%`,
-          }}
-        >
-          <span
-            style={{
-              fontSize: `${style.fontSize}px`,
-              color: style.color,
-              backgroundColor: style.backgroundColor,
-              fontFamily: style.fontFamily,
-              textShadow: style.textShadow,
-              opacity: style.opacity,
-              padding: '4px 8px',
-              borderRadius: '4px',
-              whiteSpace: 'pre-wrap',
-            }}
-          >
-            {activeCue.text}
-          </span>
-        </div>
-      )}
+      <SubtitleCanvas render={renderOverlay} video={videoElement} className="absolute inset-0 w-full h-full" />
     </div>
   );
 };
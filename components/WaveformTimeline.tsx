@@ -0,0 +1,353 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { SubtitleCue } from '../types';
+import { ZoomIn, ZoomOut, AudioLines } from 'lucide-react';
+import { extractWaveformPeaks, WaveformData } from '../utils/audioWaveform';
+import { MIN_CUE_DURATION, roundTime } from '../utils/cueTiming';
+
+interface WaveformTimelineProps {
+  file: File | null;
+  duration: number;
+  currentTime: number;
+  cues: SubtitleCue[];
+  onUpdateCue: (id: string, updates: Partial<SubtitleCue>) => void;
+  onSeek: (time: number) => void;
+}
+
+type DragMode = 'move' | 'start' | 'end';
+
+interface DragState {
+  id: string;
+  mode: DragMode;
+  originX: number;
+  originStart: number;
+  originEnd: number;
+  // Neighbouring cues bound how far the region can go
+  minStart: number;
+  maxEnd: number;
+  moved: boolean;
+}
+
+const MIN_ZOOM = 10; // px per second
+const MAX_ZOOM = 400;
+const DEFAULT_ZOOM = 50;
+const TIMELINE_HEIGHT = 96;
+const DRAG_THRESHOLD_PX = 3;
+
+// Pick a tick spacing that leaves roughly 80px between labels
+const tickStep = (zoom: number): number => {
+  const steps = [0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
+  return steps.find(step => step * zoom >= 80) || 600;
+};
+
+const formatTick = (seconds: number): string => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds % 60;
+  return `${m}:${s < 10 ? '0' : ''}${Number.isInteger(s) ? s : s.toFixed(1)}`;
+};
+
+const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  file,
+  duration,
+  currentTime,
+  cues,
+  onUpdateCue,
+  onSeek,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const [waveform, setWaveform] = useState<WaveformData | null>(null);
+  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [scrollLeft, setScrollLeft] = useState(0);
+  const [viewWidth, setViewWidth] = useState(0);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<{ id: string; startTime: number; endTime: number } | null>(null);
+
+  const totalDuration = Math.max(duration, waveform?.duration || 0);
+  const trackWidth = Math.max(viewWidth, Math.ceil(totalDuration * zoom));
+
+  // Decode the audio track whenever a new file is loaded
+  useEffect(() => {
+    if (!file) {
+      setWaveform(null);
+      setStatus('idle');
+      return;
+    }
+
+    let cancelled = false;
+    setStatus('loading');
+    extractWaveformPeaks(file)
+      .then((data) => {
+        if (cancelled) return;
+        setWaveform(data);
+        setStatus('ready');
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Waveform decode failed', error);
+        setWaveform(null);
+        setStatus('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Track the visible width so the canvas only covers the viewport
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewWidth(el.clientWidth));
+    observer.observe(el);
+    setViewWidth(el.clientWidth);
+    return () => observer.disconnect();
+  }, []);
+
+  // Ctrl/Cmd + wheel zooms around the pointer. Needs a non-passive listener to stop page zoom.
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const pointerX = e.clientX - rect.left;
+      setZoom(prevZoom => {
+        const nextZoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prevZoom * (e.deltaY < 0 ? 1.2 : 1 / 1.2)));
+        const timeAtPointer = (el.scrollLeft + pointerX) / prevZoom;
+        requestAnimationFrame(() => {
+          el.scrollLeft = timeAtPointer * nextZoom - pointerX;
+        });
+        return nextZoom;
+      });
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Keep the playhead in view during playback and seeks
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el || drag || viewWidth === 0) return;
+    const x = currentTime * zoom;
+    if (x < el.scrollLeft || x > el.scrollLeft + viewWidth - 20) {
+      el.scrollLeft = Math.max(0, x - viewWidth * 0.25);
+    }
+  }, [currentTime, zoom, viewWidth, drag]);
+
+  // Draw the visible slice of the waveform and the time ruler
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || viewWidth === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(viewWidth * dpr);
+    canvas.height = Math.floor(TIMELINE_HEIGHT * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewWidth, TIMELINE_HEIGHT);
+
+    const mid = TIMELINE_HEIGHT / 2;
+
+    if (waveform) {
+      ctx.fillStyle = '#3f3f46';
+      for (let x = 0; x < viewWidth; x++) {
+        const t0 = (scrollLeft + x) / zoom;
+        const t1 = (scrollLeft + x + 1) / zoom;
+        const from = Math.floor(t0 * waveform.peaksPerSecond);
+        const to = Math.min(waveform.peaks.length, Math.max(from + 1, Math.ceil(t1 * waveform.peaksPerSecond)));
+        let peak = 0;
+        for (let i = from; i < to; i++) {
+          if (waveform.peaks[i] > peak) peak = waveform.peaks[i];
+        }
+        const h = Math.max(1, peak * (TIMELINE_HEIGHT - 16));
+        ctx.fillRect(x, mid - h / 2, 1, h);
+      }
+    }
+
+    // Ruler
+    const step = tickStep(zoom);
+    ctx.fillStyle = '#71717a';
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textBaseline = 'top';
+    const firstTick = Math.floor(scrollLeft / zoom / step) * step;
+    for (let t = firstTick; t * zoom <= scrollLeft + viewWidth; t += step) {
+      const x = Math.round(t * zoom - scrollLeft) + 0.5;
+      ctx.fillRect(x, 0, 1, 6);
+      ctx.fillText(formatTick(t), x + 3, 1);
+    }
+  }, [waveform, zoom, scrollLeft, viewWidth]);
+
+  // Drag handling lives on window so the pointer can leave the region while dragging
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const dxPx = e.clientX - drag.originX;
+      if (!drag.moved && Math.abs(dxPx) < DRAG_THRESHOLD_PX) return;
+      const dx = dxPx / zoom;
+      let startTime = drag.originStart;
+      let endTime = drag.originEnd;
+
+      if (drag.mode === 'move') {
+        const length = drag.originEnd - drag.originStart;
+        startTime = Math.min(Math.max(drag.minStart, drag.originStart + dx), drag.maxEnd - length);
+        endTime = startTime + length;
+      } else if (drag.mode === 'start') {
+        startTime = Math.min(Math.max(drag.minStart, drag.originStart + dx), drag.originEnd - MIN_CUE_DURATION);
+      } else {
+        endTime = Math.max(Math.min(drag.maxEnd, drag.originEnd + dx), drag.originStart + MIN_CUE_DURATION);
+      }
+
+      if (!drag.moved) setDrag({ ...drag, moved: true });
+      setDraft({ id: drag.id, startTime: roundTime(startTime), endTime: roundTime(endTime) });
+    };
+
+    const handleUp = (e: PointerEvent) => {
+      if (drag.moved && draft) {
+        // One update per drag, so the whole gesture is a single undo step
+        if (draft.startTime !== drag.originStart || draft.endTime !== drag.originEnd) {
+          onUpdateCue(drag.id, { startTime: draft.startTime, endTime: draft.endTime });
+        }
+      } else {
+        onSeek(timeAtClientX(e.clientX));
+      }
+      setDrag(null);
+      setDraft(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, draft, zoom, onUpdateCue, onSeek]);
+
+  const timeAtClientX = (clientX: number): number => {
+    const track = trackRef.current;
+    if (!track) return 0;
+    const x = clientX - track.getBoundingClientRect().left;
+    return Math.min(totalDuration || Infinity, Math.max(0, x / zoom));
+  };
+
+  const startDrag = (e: React.PointerEvent, cue: SubtitleCue, index: number, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    const previous = cues[index - 1];
+    const next = cues[index + 1];
+    setDrag({
+      id: cue.id,
+      mode,
+      originX: e.clientX,
+      originStart: cue.startTime,
+      originEnd: cue.endTime,
+      minStart: previous ? previous.endTime : 0,
+      maxEnd: next ? next.startTime : totalDuration > 0 ? totalDuration : Infinity,
+      moved: false,
+    });
+  };
+
+  const changeZoom = (factor: number) => {
+    setZoom(prev => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, prev * factor)));
+  };
+
+  const visibleFrom = (scrollLeft - 50) / zoom;
+  const visibleTo = (scrollLeft + viewWidth + 50) / zoom;
+
+  return (
+    <div className="mt-4 bg-[#18181b] border border-zinc-800 rounded-lg overflow-hidden select-none">
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-zinc-800 text-xs text-zinc-500">
+        <div className="flex items-center gap-2">
+          <AudioLines size={12} />
+          <span>Timeline</span>
+          {status === 'loading' && <span className="text-zinc-600">Decoding audio...</span>}
+          {status === 'error' && <span className="text-amber-500/80">No decodable audio track</span>}
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => changeZoom(1 / 1.5)}
+            disabled={zoom <= MIN_ZOOM}
+            className="p-1 hover:text-white hover:bg-zinc-800 rounded disabled:opacity-30"
+            title="Zoom out (Ctrl + scroll)"
+          >
+            <ZoomOut size={14} />
+          </button>
+          <button
+            onClick={() => changeZoom(1.5)}
+            disabled={zoom >= MAX_ZOOM}
+            className="p-1 hover:text-white hover:bg-zinc-800 rounded disabled:opacity-30"
+            title="Zoom in (Ctrl + scroll)"
+          >
+            <ZoomIn size={14} />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="relative overflow-x-auto overflow-y-hidden"
+        style={{ height: TIMELINE_HEIGHT + 12 }}
+        onScroll={(e) => setScrollLeft(e.currentTarget.scrollLeft)}
+      >
+        <div
+          ref={trackRef}
+          className="relative cursor-text"
+          style={{ width: trackWidth, height: TIMELINE_HEIGHT }}
+          onPointerDown={(e) => {
+            if (e.button === 0) onSeek(timeAtClientX(e.clientX));
+          }}
+        >
+          <canvas
+            ref={canvasRef}
+            className="sticky left-0 top-0 pointer-events-none"
+            style={{ width: viewWidth, height: TIMELINE_HEIGHT }}
+          />
+
+          {/* Cue regions */}
+          {cues.map((cue, index) => {
+            const timing = draft && draft.id === cue.id ? draft : cue;
+            if (timing.endTime < visibleFrom || timing.startTime > visibleTo) return null;
+            const isActive = currentTime >= timing.startTime && currentTime <= timing.endTime;
+            return (
+              <div
+                key={cue.id}
+                className={`absolute top-4 bottom-1 rounded border text-[10px] leading-tight overflow-hidden cursor-grab active:cursor-grabbing ${
+                  isActive ? 'bg-blue-500/30 border-blue-400' : 'bg-blue-500/15 border-blue-500/40 hover:bg-blue-500/25'
+                }`}
+                style={{
+                  left: timing.startTime * zoom,
+                  width: Math.max(2, (timing.endTime - timing.startTime) * zoom),
+                }}
+                onPointerDown={(e) => startDrag(e, cue, index, 'move')}
+                title={cue.text}
+              >
+                <div
+                  className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-blue-400/60"
+                  onPointerDown={(e) => startDrag(e, cue, index, 'start')}
+                />
+                <span className="block px-2 py-1 text-zinc-200 truncate pointer-events-none">{cue.text}</span>
+                <div
+                  className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-blue-400/60"
+                  onPointerDown={(e) => startDrag(e, cue, index, 'end')}
+                />
+              </div>
+            );
+          })}
+
+          {/* Playhead */}
+          <div
+            className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+            style={{ left: currentTime * zoom }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformTimeline;
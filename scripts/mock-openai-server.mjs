@@ -0,0 +1,68 @@
+// Minimal OpenAI-compatible server for trying the "OpenAI-compatible" provider without a real backend.
+// Usage: npm run mock:openai, then set the Server URL in Settings to http://localhost:8787/v1
+import http from 'node:http';
+
+const PORT = Number(process.env.PORT) || 8787;
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Estimate the length of the upload from its size: 24 kbps Ogg Opus, or 16 kHz mono 16-bit WAV
+const audioDuration = (body) =>
+  body.includes('OggS') ? body.length / 3000 : Math.max(0, (body.length - 44) / 32000);
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const body = await readBody(req);
+
+  if (req.method === 'POST' && req.url === '/v1/audio/transcriptions') {
+    const duration = audioDuration(body);
+    const segments = [];
+    for (let start = 0; start + 2.5 <= duration; start += 4) {
+      segments.push({ id: segments.length, start, end: start + 2.5, text: `Mock segment ${segments.length + 1}` });
+    }
+    const words = segments.flatMap(s => s.text.split(' ').map((word, i, all) => ({
+      word,
+      start: s.start + (i * 2.5) / all.length,
+      end: s.start + ((i + 1) * 2.5) / all.length,
+    })));
+    console.log(`transcription: ${body.length} bytes, ${segments.length} segments`);
+    return send(res, 200, { task: 'transcribe', duration, text: segments.map(s => s.text).join(' '), segments, words });
+  }
+
+  if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    const { model, messages = [] } = JSON.parse(body.toString() || '{}');
+    const prompt = messages[messages.length - 1]?.content || '';
+    const language = /into (.+?)\./.exec(prompt)?.[1] || 'target';
+    // Echo the batch back with each cue's text tagged, keyed by id like a real translation
+    const batch = JSON.parse(prompt.slice(prompt.indexOf('\n\n') + 2) || '{}');
+    const translations = (batch.cues || []).map(cue => ({ id: cue.id, text: `[${language}] ${cue.text}` }));
+    const content = JSON.stringify({ translations });
+    console.log(`chat: model=${model}, ${translations.length} cues`);
+    return send(res, 200, {
+      object: 'chat.completion',
+      model,
+      choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }],
+    });
+  }
+
+  send(res, 404, { error: { message: `No mock for ${req.method} ${req.url}` } });
+});
+
+server.listen(PORT, () => console.log(`Mock OpenAI-compatible server on http://localhost:${PORT}/v1`));
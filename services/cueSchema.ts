@@ -0,0 +1,179 @@
+import { Schema, Type } from "@google/genai";
+import { SubtitleCue, WordTiming } from '../types';
+import { TranslatedText } from '../utils/translationBatches';
+import { createCueId } from '../utils/srtParser';
+import { roundTime } from '../utils/cueTiming';
+
+// One cue as the model returns it, before it becomes a SubtitleCue
+export interface TranscribedCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  speaker?: string;
+  confidence?: number; // 0..1
+  words?: WordTiming[];
+}
+
+// Raised when a structured response doesn't match CUE_RESPONSE_SCHEMA
+export class CueSchemaError extends Error {
+  constructor(message: string) {
+    super(`The AI response did not match the expected subtitle format: ${message}`);
+    this.name = 'CueSchemaError';
+  }
+}
+
+export const CUE_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    cues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          start: { type: Type.NUMBER, description: 'Start time in seconds' },
+          end: { type: Type.NUMBER, description: 'End time in seconds' },
+          text: { type: Type.STRING, description: 'Subtitle text, at most two lines separated by \\n' },
+          speaker: { type: Type.STRING, description: 'Speaker label, if known', nullable: true },
+          confidence: { type: Type.NUMBER, description: 'Transcription confidence from 0 to 1', nullable: true },
+          words: {
+            type: Type.ARRAY,
+            description: 'Every word of "text" in order, with its own timing',
+            nullable: true,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                text: { type: Type.STRING },
+                start: { type: Type.NUMBER, description: 'Start time in seconds' },
+                end: { type: Type.NUMBER, description: 'End time in seconds' },
+              },
+              required: ['text', 'start', 'end'],
+              propertyOrdering: ['text', 'start', 'end'],
+            },
+          },
+        },
+        required: ['start', 'end', 'text'],
+        propertyOrdering: ['start', 'end', 'text', 'speaker', 'confidence', 'words'],
+      },
+    },
+  },
+  required: ['cues'],
+};
+
+export const TRANSLATION_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    translations: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.STRING, description: 'The id of the source cue, unchanged' },
+          text: { type: Type.STRING, description: 'Translated text' },
+        },
+        required: ['id', 'text'],
+        propertyOrdering: ['id', 'text'],
+      },
+    },
+  },
+  required: ['translations'],
+};
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Helper to check one word timing of a cue
+const validateWord = (word: unknown, where: string): WordTiming => {
+  if (!isRecord(word) || typeof word.text !== 'string' || !isNumber(word.start) || !isNumber(word.end) || word.end < word.start) {
+    throw new CueSchemaError(`${where} needs "text", "start" and "end".`);
+  }
+  return { text: word.text, start: word.start, end: word.end };
+};
+
+// Helper to check one cue object, naming the offending field in the error
+const validateCue = (item: unknown, index: number): TranscribedCue => {
+  const where = `cue ${index + 1}`;
+  if (!isRecord(item)) {
+    throw new CueSchemaError(`${where} is not an object.`);
+  }
+  const { start, end, text, speaker, confidence, words } = item;
+  if (!isNumber(start) || start < 0) {
+    throw new CueSchemaError(`${where} has an invalid "start" (${JSON.stringify(start)}).`);
+  }
+  if (!isNumber(end) || end < start) {
+    throw new CueSchemaError(`${where} has an invalid "end" (${JSON.stringify(end)}).`);
+  }
+  if (typeof text !== 'string') {
+    throw new CueSchemaError(`${where} is missing "text".`);
+  }
+  if (speaker != null && typeof speaker !== 'string') {
+    throw new CueSchemaError(`${where} has a non-text "speaker".`);
+  }
+  if (confidence != null && (!isNumber(confidence) || confidence < 0 || confidence > 1)) {
+    throw new CueSchemaError(`${where} has a "confidence" outside 0..1.`);
+  }
+  if (words != null && !Array.isArray(words)) {
+    throw new CueSchemaError(`${where} has "words" that is not an array.`);
+  }
+
+  return {
+    start,
+    end,
+    text,
+    ...(typeof speaker === 'string' && { speaker }),
+    ...(isNumber(confidence) && { confidence }),
+    ...(Array.isArray(words) && { words: words.map((word: unknown, i) => validateWord(word, `${where}, word ${i + 1}`)) }),
+  };
+};
+
+// Helper to read a JSON response body, reporting empty or malformed text as a CueSchemaError
+const parseJSONBody = (text: string | undefined): unknown => {
+  if (!text || !text.trim()) {
+    throw new CueSchemaError('the response was empty.');
+  }
+  try {
+    return JSON.parse(text);
+  } catch (e) {
+    throw new CueSchemaError('the response is not valid JSON.');
+  }
+};
+
+// Parses and validates a JSON response against CUE_RESPONSE_SCHEMA. Throws CueSchemaError on any mismatch.
+export const parseCueResponse = (text: string | undefined): TranscribedCue[] => {
+  const body = parseJSONBody(text);
+  if (!isRecord(body) || !Array.isArray(body.cues)) {
+    throw new CueSchemaError('"cues" must be an array.');
+  }
+  return body.cues.map(validateCue);
+};
+
+// Helper to turn validated cues into editor cues, dropping blank lines
+export const toSubtitleCues = (items: TranscribedCue[]): SubtitleCue[] =>
+  items
+    .filter(item => item.text.trim())
+    .sort((a, b) => a.start - b.start)
+    .map(item => ({
+      id: createCueId(),
+      startTime: roundTime(item.start),
+      endTime: roundTime(item.end),
+      text: item.text.trim(),
+      ...(item.speaker?.trim() && { speaker: item.speaker.trim() }),
+      ...(item.words?.length && {
+        words: item.words.map(word => ({ text: word.text.trim(), start: roundTime(word.start), end: roundTime(word.end) })),
+      }),
+    }));
+
+// Parses a TRANSLATION_RESPONSE_SCHEMA response. Malformed entries are skipped rather than fatal:
+// translateInBatches retries whichever ids didn't come back usable.
+export const parseTranslationResponse = (text: string | undefined): TranslatedText[] => {
+  const body = parseJSONBody(text);
+  if (!isRecord(body) || !Array.isArray(body.translations)) {
+    throw new CueSchemaError('"translations" must be an array.');
+  }
+  return body.translations.flatMap((item: unknown) =>
+    isRecord(item) && (typeof item.id === 'string' || typeof item.id === 'number') && typeof item.text === 'string'
+      ? [{ id: String(item.id), text: item.text }]
+      : []
+  );
+};
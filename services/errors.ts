@@ -0,0 +1,178 @@
+// Typed failures of the AI providers, each with what the user can do about it
+import { CueSchemaError } from './cueSchema';
+
+export class AIServiceError extends Error {
+  guidance: string;
+  status?: number;
+  retryAfter?: number; // seconds, from a Retry-After header
+
+  constructor(message: string, guidance: string, status?: number) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.guidance = guidance;
+    this.status = status;
+  }
+}
+
+export class AuthError extends AIServiceError {
+  constructor(message: string = "The API key was rejected.", status?: number) {
+    super(message, "Check the API key in Settings. It may be mistyped, revoked, or for a different provider.", status);
+    this.name = 'AuthError';
+  }
+}
+
+export class QuotaError extends AIServiceError {
+  constructor(message: string = "The provider's rate limit or quota was reached.", status?: number) {
+    super(message, "Wait a minute and try again. If it keeps happening, check the usage limits and billing of your API plan.", status);
+    this.name = 'QuotaError';
+  }
+}
+
+export class TooLargeError extends AIServiceError {
+  constructor(message: string = "The media is too large for the provider.", status?: number) {
+    super(message, "Trim the video, or switch the transcription source to \"Audio only\" so only the speech track is sent.", status);
+    this.name = 'TooLargeError';
+  }
+}
+
+export class SafetyBlockedError extends AIServiceError {
+  constructor(message: string = "The provider's safety filter blocked the response.") {
+    super(message, "This content can't be processed by this model. Try another model or provider, or edit the affected subtitles by hand.");
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+export class NetworkError extends AIServiceError {
+  constructor(message: string = "Could not reach the AI provider.") {
+    super(message, "Check your internet connection. For a self-hosted server, check the server URL in Settings and that it allows requests from this page (CORS).");
+    this.name = 'NetworkError';
+  }
+}
+
+// Server-side failure (5xx) that outlasted the automatic retries
+export class ServerError extends AIServiceError {
+  constructor(message: string = "The AI provider had an internal error.", status?: number) {
+    super(message, "The provider is having trouble. Try again in a few minutes.", status);
+    this.name = 'ServerError';
+  }
+}
+
+// Non-2xx response from an HTTP API, before classifyError turns it into one of the typed errors above
+export class HttpError extends Error {
+  status: number;
+  retryAfter?: number; // seconds, from a Retry-After header
+
+  constructor(message: string, status: number, retryAfter?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// Raised when the user cancels a job; the UI stays quiet about it
+export class CancelledError extends Error {
+  constructor() {
+    super('The job was cancelled.');
+    this.name = 'CancelledError';
+  }
+}
+
+export const isCancelled = (error: unknown): boolean =>
+  error instanceof CancelledError || (error instanceof Error && error.name === 'AbortError');
+
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new CancelledError();
+};
+
+// Helper to read the message of anything thrown; empty when there is none
+const errorMessage = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  if (typeof error === 'object' && error !== null && 'message' in error && typeof error.message === 'string') return error.message;
+  return '';
+};
+
+// Helper to turn whatever a provider threw (SDK errors, HTTP errors with a status, fetch failures)
+// into one of the typed errors above. Errors that are already typed pass through.
+export const classifyError = (error: unknown, fallback: string): Error => {
+  if (error instanceof AIServiceError || error instanceof CueSchemaError) return error;
+  if (error instanceof Error && isCancelled(error)) return error;
+  const message = errorMessage(error);
+  // HttpError, and the SDKs' own API errors, carry the HTTP status
+  const status = typeof error === 'object' && error !== null && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+
+  if (status === 401 || status === 403 || /API key not valid|invalid api key|API_KEY_INVALID/i.test(message)) {
+    return new AuthError(undefined, status);
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    const typed = new QuotaError(undefined, status);
+    if (error instanceof HttpError) typed.retryAfter = error.retryAfter;
+    return typed;
+  }
+  if (status === 413 || /too large|exceeds the maximum|payload size/i.test(message)) {
+    return new TooLargeError(undefined, status);
+  }
+  if (/SAFETY|PROHIBITED_CONTENT|content_filter|content_policy/i.test(message)) {
+    return new SafetyBlockedError();
+  }
+  if (status !== undefined && status >= 500) {
+    return new ServerError(undefined, status);
+  }
+  // fetch rejects with a TypeError for network and CORS failures
+  if (error instanceof TypeError || /failed to fetch|network/i.test(message)) {
+    return new NetworkError();
+  }
+  return new Error(message ? `${fallback} ${message}` : fallback);
+};
+
+// Rate limits and server errors usually clear up on their own; everything else fails the same way again
+export const isRetryable = (error: unknown): boolean =>
+  error instanceof QuotaError || error instanceof ServerError;
+
+export interface RetryOptions {
+  signal?: AbortSignal;
+  retries?: number;
+  baseDelay?: number; // ms before the first retry; doubles each time
+  onRetry?: (attempt: number, delay: number, error: Error) => void;
+}
+
+// Helper to wait without outliving a cancelled job
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError());
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Runs one provider request, retrying rate-limit and 5xx failures with exponential backoff (plus jitter,
+// so parallel chunks don't retry in lockstep). Errors come out classified.
+export const withRetry = async <T>(request: () => Promise<T>, fallback: string, options: RetryOptions = {}): Promise<T> => {
+  const { signal, retries = 3, baseDelay = 1000, onRetry } = options;
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(signal);
+    try {
+      return await request();
+    } catch (raw) {
+      if (signal?.aborted) throw new CancelledError();
+      const error = classifyError(raw, fallback);
+      if (attempt >= retries || !isRetryable(error)) throw error;
+      const backoff = baseDelay * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      const delay = Math.max(backoff, ((error as AIServiceError).retryAfter || 0) * 1000);
+      onRetry?.(attempt + 1, delay, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+// Helper to write an error out for the user: what went wrong and what to do about it
+export const describeError = (error: unknown): string =>
+  error instanceof AIServiceError ? `${error.message}\n\n${error.guidance}` : (errorMessage(error) || String(error));
@@ -1,111 +1,238 @@
-import { GoogleGenAI } from "@google/genai";
-import { SubtitleCue } from '../types';
-import { parseSRT } from '../utils/srtParser';
+import { GoogleGenAI, FileState, FinishReason, GenerateContentResponse, Part, File as GeminiFile } from "@google/genai";
+import { SubtitleCue, ProviderSettings } from '../types';
+import { formatSRTTime } from '../utils/srtParser';
+import { TranscriptionChunk, planChunks, toAbsoluteCues, mergeChunkCues, mapWithConcurrency } from '../utils/transcriptionChunks';
+import { extractSpeechAudio, sliceSpeechAudio, encodeSpeechAudio } from '../utils/mediaPrep';
+import { TranslationBatch, TranslatedText, translateInBatches } from '../utils/translationBatches';
+import { SubtitleProvider, TranscribeOptions, TranslateOptions } from './providers';
+import { SYSTEM_INSTRUCTION, TRANSLATION_INSTRUCTION, buildGlossaryInstruction, buildTranslationPrompt, translationTemperature } from './prompts';
+import { CUE_RESPONSE_SCHEMA, TRANSLATION_RESPONSE_SCHEMA, CueSchemaError, parseCueResponse, parseTranslationResponse, toSubtitleCues } from './cueSchema';
+import { AuthError, SafetyBlockedError, classifyError, throwIfCancelled, withRetry } from './errors';
+
+type GeminiConfig = ProviderSettings['gemini'];
 
 // Helper to get client instance
 const getClient = (apiKey: string) => {
   if (!apiKey) {
-    throw new Error("API Key is missing. Please add your Gemini API Key in Settings.");
+    throw new AuthError("API Key is missing. Please add your Gemini API Key in Settings.");
   }
   return new GoogleGenAI({ apiKey });
 };
 
-const SYSTEM_INSTRUCTION = `
-You are a professional subtitle generator. 
-Your task is to analyze the audio/video and generate extremely accurate subtitles in standard SRT format.
-1. Return ONLY the SRT content. Do not include markdown code blocks (e.g., \`\`\`srt).
-2. Ensure precise timing synchronization.
-3. Do not add conversational fillers unless necessary for context.
-4. If no speech is detected, return an empty string.
-`;
-
-const TRANSLATION_INSTRUCTION = `
-You are a professional translator for movie subtitles.
-1. Translate the subtitle text to the target language.
-2. PRESERVE the exact SRT structure, IDs, and timestamps.
-3. Only change the text content.
-4. Return ONLY the SRT content without markdown blocks.
-`;
-
-export const transcribeVideo = async (videoFile: File, apiKey: string, onProgress?: (msg: string) => void): Promise<SubtitleCue[]> => {
-  if (onProgress) onProgress("Preparing video for upload...");
-
-  // Convert File to Base64
-  const base64Data = await fileToGenerativePart(videoFile);
+// Files above this are uploaded once through the File API instead of being base64-inlined in every request
+const INLINE_SIZE_LIMIT = 15 * 1024 * 1024;
+// Chunks transcribed in parallel; more mostly trips rate limits
+const CHUNK_CONCURRENCY = 3;
 
-  if (onProgress) onProgress("Analyzing audio with Gemini...");
+// Media handed to the model: prepared once, then cut per chunk
+interface PreparedMedia {
+  duration: number;
+  partFor: (chunk: TranscriptionChunk, clipped: boolean) => Promise<Part>;
+  promptFor: (chunk: TranscriptionChunk, clipped: boolean) => string;
+  uploadedName?: string;
+}
 
+export const transcribeVideo = async (
+  videoFile: File,
+  config: GeminiConfig,
+  onProgress?: (msg: string) => void,
+  options: TranscribeOptions = {}
+): Promise<SubtitleCue[]> => {
+  let media: PreparedMedia | undefined;
   try {
-    const ai = getClient(apiKey);
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: videoFile.type,
-              data: base64Data
-            }
-          },
-          {
-            text: "Generate subtitles for this video in SRT format."
-          }
-        ]
-      },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        temperature: 0.2, // Low temperature for accuracy
-      }
-    });
-
-    if (onProgress) onProgress("Parsing subtitles...");
-    
-    const srtText = response.text || "";
-    // Clean up if the model accidentally included markdown
-    const cleanSrt = srtText.replace(/```srt/g, '').replace(/```/g, '').trim();
-    
-    return parseSRT(cleanSrt);
+    const ai = getClient(config.apiKey);
+    media = await prepareMedia(ai, videoFile, options, onProgress);
+    const prepared = media;
+    const chunks = planChunks(prepared.duration, options.chunkLength, options.chunkOverlap);
+    const clipped = chunks.length > 1;
+    const instruction = SYSTEM_INSTRUCTION + buildGlossaryInstruction(options.glossary);
+
+    let completed = 0;
+    if (onProgress) onProgress(`Analyzing audio with Gemini (0/${chunks.length} chunks)...`);
+
+    const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, _, signal) => {
+      throwIfCancelled(signal);
+      const part = await prepared.partFor(chunk, clipped);
+      const cues = await withRetry(
+        () => transcribeChunk(ai, config.model, part, prepared.promptFor(chunk, clipped), instruction, signal),
+        "Failed to transcribe video.",
+        { signal, onRetry: (attempt) => onProgress?.(`Gemini is busy, retrying (attempt ${attempt + 1})...`) }
+      );
+      completed++;
+      if (onProgress) onProgress(`Analyzing audio with Gemini (${completed}/${chunks.length} chunks)...`);
+      return { chunk, cues: toAbsoluteCues(cues, chunk) };
+    }, options.signal);
+
+    if (onProgress) onProgress("Merging subtitles...");
+    return mergeChunkCues(results);
 
   } catch (error: any) {
     console.error("Transcription error:", error);
-    // Improve error message for common API key issues
-    if (error.message?.includes('API key') || error.status === 403) {
-        throw new Error("Invalid API Key. Please check your key in Settings.");
+    if (error.message?.includes('audio track')) {
+        throw new Error(`${error.message} Try transcribing with "Audio + video" instead.`);
+    }
+    throw classifyError(error, "Failed to transcribe video. Check the file format and try again.");
+  } finally {
+    if (media?.uploadedName) {
+      getClient(config.apiKey).files.delete({ name: media.uploadedName }).catch(() => undefined);
     }
-    throw new Error("Failed to transcribe video. Ensure the video is under 20MB for this demo.");
   }
 };
 
-export const translateSubtitles = async (srtContent: string, targetLanguage: string, style: string = 'Standard', apiKey: string): Promise<SubtitleCue[]> => {
+// Media-prep step: either the 16 kHz mono speech track, re-encoded per chunk, or the original
+// file (inlined, or uploaded once when large) that chunks address through clip offsets
+const prepareMedia = async (
+  ai: GoogleGenAI,
+  file: File,
+  options: TranscribeOptions,
+  onProgress?: (msg: string) => void
+): Promise<PreparedMedia> => {
+  if ((options.source || 'audio') === 'audio') {
+    if (onProgress) onProgress("Extracting audio track...");
+    const audio = await extractSpeechAudio(file);
+    throwIfCancelled(options.signal);
+    return {
+      duration: audio.duration,
+      partFor: async (chunk) => {
+        const encoded = await encodeSpeechAudio(sliceSpeechAudio(audio, chunk.start, chunk.end), audio.sampleRate);
+        return { inlineData: { mimeType: encoded.type, data: await fileToGenerativePart(encoded) } };
+      },
+      promptFor: () => "Generate subtitles for this audio.",
+    };
+  }
+
+  if (onProgress) onProgress("Preparing video for upload...");
+  const duration = options.duration || await getMediaDuration(file);
+
+  let mediaPart: Part;
+  let uploadedName: string | undefined;
+  if (file.size > INLINE_SIZE_LIMIT) {
+    if (onProgress) onProgress("Uploading video to Gemini...");
+    const uploaded = await withRetry(() => uploadMedia(ai, file, options.signal), "Failed to upload the video.", { signal: options.signal });
+    uploadedName = uploaded.name;
+    mediaPart = { fileData: { fileUri: uploaded.uri, mimeType: uploaded.mimeType || file.type } };
+  } else {
+    mediaPart = { inlineData: { mimeType: file.type, data: await fileToGenerativePart(file) } };
+  }
+
+  return {
+    duration,
+    uploadedName,
+    // Every chunk refers to the same media; only the clip offsets change
+    partFor: async (chunk, clipped) => clipped
+      ? { ...mediaPart, videoMetadata: { startOffset: `${chunk.start}s`, endOffset: `${chunk.end}s` } }
+      : mediaPart,
+    promptFor: (chunk, clipped) => clipped
+      ? `Generate subtitles for this clip (${formatSRTTime(chunk.start)} to ${formatSRTTime(chunk.end)}). Timestamps must be relative to the start of the clip.`
+      : "Generate subtitles for this video.",
+  };
+};
+
+// Helper to tell a safety block apart from an ordinary empty reply
+const checkNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || finishReason === FinishReason.SAFETY || finishReason === FinishReason.PROHIBITED_CONTENT) {
+    throw new SafetyBlockedError();
+  }
+};
+
+// Helper to transcribe one chunk of the media; timestamps come back relative to the chunk start
+const transcribeChunk = async (
+  ai: GoogleGenAI,
+  model: string,
+  part: Part,
+  prompt: string,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<SubtitleCue[]> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: {
+      parts: [
+        part,
+        {
+          text: prompt
+        }
+      ]
+    },
+    config: {
+      systemInstruction: instruction,
+      temperature: 0.2, // Low temperature for accuracy
+      responseMimeType: 'application/json',
+      responseSchema: CUE_RESPONSE_SCHEMA,
+      abortSignal: signal,
+    }
+  });
+
+  checkNotBlocked(response);
+  return toSubtitleCues(parseCueResponse(response.text));
+};
+
+// Helper to translate one batch; a malformed reply counts as nothing translated so the batch is retried
+const translateBatch = async (
+  ai: GoogleGenAI,
+  batch: TranslationBatch,
+  targetLanguage: string,
+  style: string,
+  model: string,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<TranslatedText[]> => {
+  const response = await ai.models.generateContent({
+    model,
+    contents: buildTranslationPrompt(JSON.stringify(batch), targetLanguage, style),
+    config: {
+      systemInstruction: instruction,
+      temperature: translationTemperature(style),
+      responseMimeType: 'application/json',
+      responseSchema: TRANSLATION_RESPONSE_SCHEMA,
+      abortSignal: signal,
+    }
+  });
+  checkNotBlocked(response);
+  try {
+    return parseTranslationResponse(response.text);
+  } catch (error) {
+    if (!(error instanceof CueSchemaError)) throw error;
+    console.warn("Discarding malformed translation batch:", error.message);
+    return [];
+  }
+};
+
+export const translateSubtitles = async (
+  cues: SubtitleCue[],
+  targetLanguage: string,
+  style: string = 'Standard',
+  config: GeminiConfig,
+  onProgress?: (msg: string) => void,
+  options: TranslateOptions = {}
+): Promise<SubtitleCue[]> => {
   try {
-    const ai = getClient(apiKey);
-    const styleInstruction = style === 'Standard' 
-      ? '' 
-      : `IMPORTANT: Translate using a "${style}" tone/style. Adapt idioms and cultural references to match this persona/mood while keeping the meaning intact.`;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Translate the following SRT subtitles into ${targetLanguage}.\n${styleInstruction}\n\n${srtContent}`,
-      config: {
-        systemInstruction: TRANSLATION_INSTRUCTION,
-        temperature: style === 'Standard' ? 0.3 : 0.7, // Higher creativity for styled translations
-      }
-    });
-
-    const translatedSrt = response.text || "";
-    const cleanSrt = translatedSrt.replace(/```srt/g, '').replace(/```/g, '').trim();
-    return parseSRT(cleanSrt);
+    const ai = getClient(config.apiKey);
+    const instruction = TRANSLATION_INSTRUCTION + buildGlossaryInstruction(options.glossary, options.languageCode ?? '');
+    return await translateInBatches(
+      cues,
+      (batch, signal) => withRetry(
+        () => translateBatch(ai, batch, targetLanguage, style, config.model, instruction, signal),
+        "Failed to translate subtitles.",
+        { signal, onRetry: (attempt) => onProgress?.(`Gemini is busy, retrying (attempt ${attempt + 1})...`) }
+      ),
+      onProgress,
+      options.signal
+    );
 
   } catch (error: any) {
     console.error("Translation error:", error);
-    if (error.message?.includes('API key') || error.status === 403) {
-        throw new Error("Invalid API Key. Please check your key in Settings.");
-    }
-    throw new Error("Failed to translate subtitles.");
+    throw classifyError(error, "Failed to translate subtitles.");
   }
 };
 
-async function fileToGenerativePart(file: File): Promise<string> {
+export const createGeminiProvider = (config: GeminiConfig): SubtitleProvider => ({
+  transcribe: (file, onProgress, options) => transcribeVideo(file, config, onProgress, options),
+  translate: (cues, targetLanguage, style, onProgress, options) => translateSubtitles(cues, targetLanguage, style, config, onProgress, options),
+});
+
+async function fileToGenerativePart(file: Blob): Promise<string> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     reader.onloadend = () => {
@@ -115,4 +242,36 @@ async function fileToGenerativePart(file: File): Promise<string> {
     reader.onerror = reject;
     reader.readAsDataURL(file);
   });
-}
\ No newline at end of file
+}
+
+// Helper to upload the media once and wait until Gemini has finished processing it
+async function uploadMedia(ai: GoogleGenAI, file: File, signal?: AbortSignal): Promise<GeminiFile> {
+  let uploaded = await ai.files.upload({ file, config: { mimeType: file.type, displayName: file.name, abortSignal: signal } });
+  while (uploaded.state === FileState.PROCESSING) {
+    await new Promise(resolve => setTimeout(resolve, 2000));
+    throwIfCancelled(signal);
+    uploaded = await ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } });
+  }
+  if (uploaded.state === FileState.FAILED || !uploaded.uri) {
+    throw new Error("Gemini could not process the uploaded video.");
+  }
+  return uploaded;
+}
+
+// Helper to read the duration from the file's metadata without decoding it
+async function getMediaDuration(file: File): Promise<number> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(isFinite(video.duration) ? video.duration : 0);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(0);
+    };
+    video.src = url;
+  });
+}
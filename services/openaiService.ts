@@ -0,0 +1,198 @@
+import { SubtitleCue, ProviderSettings } from '../types';
+import { createCueId } from '../utils/srtParser';
+import { planChunks, toAbsoluteCues, mergeChunkCues, mapWithConcurrency } from '../utils/transcriptionChunks';
+import { extractSpeechAudio, sliceSpeechAudio, encodeSpeechAudio } from '../utils/mediaPrep';
+import { roundTime } from '../utils/cueTiming';
+import { TranslationBatch, TranslatedText, translateInBatches } from '../utils/translationBatches';
+import { SubtitleProvider, TranscribeOptions, TranslateOptions } from './providers';
+import { TRANSLATION_INSTRUCTION, buildGlossaryInstruction, buildVocabularyPrompt, buildTranslationPrompt, translationTemperature, cleanJSONResponse } from './prompts';
+import { CueSchemaError, parseTranslationResponse } from './cueSchema';
+import { HttpError, SafetyBlockedError, classifyError, throwIfCancelled, withRetry } from './errors';
+
+type OpenAIConfig = ProviderSettings['openai'];
+
+// Self-hosted Whisper servers are usually single-GPU; keep parallel uploads low
+const CHUNK_CONCURRENCY = 2;
+
+interface TranscriptionSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface TranscriptionWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+// Helper to join the configured base URL (with or without a trailing slash) and an API path
+const endpoint = (config: OpenAIConfig, path: string) => `${config.baseUrl.trim().replace(/\/+$/, '')}${path}`;
+
+const authHeaders = (config: OpenAIConfig): Record<string, string> =>
+  config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+
+// Helper to turn a non-2xx response into an HttpError carrying the status (and Retry-After, for 429s)
+const requestFailed = async (response: Response): Promise<HttpError> => {
+  let detail = '';
+  try {
+    const body = await response.json();
+    detail = body?.error?.message || body?.detail || '';
+  } catch (e) {
+    // Body wasn't JSON; the status is enough
+  }
+  const retryAfter = Number(response.headers.get('Retry-After'));
+  return new HttpError(
+    detail || `Server returned ${response.status} ${response.statusText}`,
+    response.status,
+    retryAfter > 0 ? retryAfter : undefined
+  );
+};
+
+// Helper to send one audio chunk (Ogg Opus or WAV) to /audio/transcriptions and read its segment timings
+const transcribeChunk = async (config: OpenAIConfig, audio: Blob, vocabulary: string, signal?: AbortSignal): Promise<SubtitleCue[]> => {
+  const form = new FormData();
+  form.append('file', audio, audio.type === 'audio/ogg' ? 'audio.ogg' : 'audio.wav');
+  form.append('model', config.transcriptionModel);
+  form.append('response_format', 'verbose_json');
+  form.append('timestamp_granularities[]', 'segment');
+  form.append('timestamp_granularities[]', 'word');
+  if (vocabulary) form.append('prompt', vocabulary);
+
+  const response = await fetch(endpoint(config, '/audio/transcriptions'), {
+    method: 'POST',
+    headers: authHeaders(config),
+    body: form,
+    signal,
+  });
+  if (!response.ok) throw await requestFailed(response);
+
+  const body = await response.json();
+  if (!Array.isArray(body.segments)) {
+    throw new Error("The server did not return segment timings (verbose_json).");
+  }
+
+  // Word timings come back as one flat list; each word belongs to the segment it starts in
+  const words: TranscriptionWord[] = Array.isArray(body.words) ? body.words : [];
+
+  return (body.segments as TranscriptionSegment[])
+    .filter(segment => segment.text?.trim())
+    .map((segment) => {
+      const segmentWords = words
+        .filter(word => word.start >= segment.start && word.start < segment.end && word.word.trim())
+        .map(word => ({ text: word.word.trim(), start: roundTime(word.start), end: roundTime(word.end) }));
+      return {
+        id: createCueId(),
+        startTime: roundTime(segment.start),
+        endTime: roundTime(segment.end),
+        text: segment.text.trim(),
+        ...(segmentWords.length > 0 && { words: segmentWords }),
+      };
+    });
+};
+
+// Whisper endpoints only take audio, so media is always reduced to the speech track
+export const transcribeWithOpenAI = async (
+  file: File,
+  config: OpenAIConfig,
+  onProgress?: (msg: string) => void,
+  options: TranscribeOptions = {}
+): Promise<SubtitleCue[]> => {
+  try {
+    if (onProgress) onProgress("Extracting audio track...");
+    const audio = await extractSpeechAudio(file);
+    throwIfCancelled(options.signal);
+    const chunks = planChunks(audio.duration, options.chunkLength, options.chunkOverlap);
+    const vocabulary = buildVocabularyPrompt(options.glossary);
+
+    let completed = 0;
+    if (onProgress) onProgress(`Transcribing with ${config.transcriptionModel} (0/${chunks.length} chunks)...`);
+
+    const results = await mapWithConcurrency(chunks, CHUNK_CONCURRENCY, async (chunk, _, signal) => {
+      const encoded = await encodeSpeechAudio(sliceSpeechAudio(audio, chunk.start, chunk.end), audio.sampleRate);
+      const cues = await withRetry(
+        () => transcribeChunk(config, encoded, vocabulary, signal),
+        "Failed to transcribe video.",
+        { signal, onRetry: (attempt) => onProgress?.(`Server is busy, retrying (attempt ${attempt + 1})...`) }
+      );
+      completed++;
+      if (onProgress) onProgress(`Transcribing with ${config.transcriptionModel} (${completed}/${chunks.length} chunks)...`);
+      return { chunk, cues: toAbsoluteCues(cues, chunk) };
+    }, options.signal);
+
+    if (onProgress) onProgress("Merging subtitles...");
+    return mergeChunkCues(results);
+
+  } catch (error: any) {
+    console.error("Transcription error:", error);
+    throw classifyError(error, "Failed to transcribe video.");
+  }
+};
+
+// Helper to translate one batch through /chat/completions. Not every compatible server supports
+// response_format, so the JSON is requested in the prompt and read leniently.
+const translateBatch = async (
+  config: OpenAIConfig,
+  batch: TranslationBatch,
+  targetLanguage: string,
+  style: string,
+  instruction: string,
+  signal?: AbortSignal
+): Promise<TranslatedText[]> => {
+  const response = await fetch(endpoint(config, '/chat/completions'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders(config) },
+    body: JSON.stringify({
+      model: config.chatModel,
+      temperature: translationTemperature(style),
+      messages: [
+        { role: 'system', content: instruction },
+        { role: 'user', content: buildTranslationPrompt(JSON.stringify(batch), targetLanguage, style) },
+      ],
+    }),
+    signal,
+  });
+  if (!response.ok) throw await requestFailed(response);
+
+  const body = await response.json();
+  if (body.choices?.[0]?.finish_reason === 'content_filter') throw new SafetyBlockedError();
+  try {
+    return parseTranslationResponse(cleanJSONResponse(body.choices?.[0]?.message?.content || ""));
+  } catch (error) {
+    if (!(error instanceof CueSchemaError)) throw error;
+    console.warn("Discarding malformed translation batch:", error.message);
+    return [];
+  }
+};
+
+export const translateWithOpenAI = async (
+  cues: SubtitleCue[],
+  targetLanguage: string,
+  style: string = 'Standard',
+  config: OpenAIConfig,
+  onProgress?: (msg: string) => void,
+  options: TranslateOptions = {}
+): Promise<SubtitleCue[]> => {
+  try {
+    const instruction = TRANSLATION_INSTRUCTION + buildGlossaryInstruction(options.glossary, options.languageCode ?? '');
+    return await translateInBatches(
+      cues,
+      (batch, signal) => withRetry(
+        () => translateBatch(config, batch, targetLanguage, style, instruction, signal),
+        "Failed to translate subtitles.",
+        { signal, onRetry: (attempt) => onProgress?.(`Server is busy, retrying (attempt ${attempt + 1})...`) }
+      ),
+      onProgress,
+      options.signal
+    );
+
+  } catch (error: any) {
+    console.error("Translation error:", error);
+    throw classifyError(error, "Failed to translate subtitles.");
+  }
+};
+
+export const createOpenAIProvider = (config: OpenAIConfig): SubtitleProvider => ({
+  transcribe: (file, onProgress, options) => transcribeWithOpenAI(file, config, onProgress, options),
+  translate: (cues, targetLanguage, style, onProgress, options) => translateWithOpenAI(cues, targetLanguage, style, config, onProgress, options),
+});
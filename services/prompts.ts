@@ -0,0 +1,68 @@
+// Prompts shared by every provider
+
+import { Glossary } from '../types';
+import { forcedTranslationsFor, isGlossaryEmpty } from '../utils/glossary';
+
+export const SYSTEM_INSTRUCTION = `
+You are a professional subtitle generator.
+Your task is to analyze the audio/video and generate extremely accurate subtitles as JSON cues.
+1. Give "start" and "end" in seconds from the beginning of the media you were given.
+2. Ensure precise timing synchronization; keep each cue to at most two short lines.
+3. Do not add conversational fillers unless necessary for context.
+4. List every word of the cue in "words" with its own start and end time, for karaoke highlighting.
+5. Label who is talking in "speaker": the person's name if it is said, otherwise "Speaker 1", "Speaker 2"... consistently. Start a new cue when the speaker changes.
+6. If no speech is detected, return an empty "cues" array.
+`;
+
+export const TRANSLATION_INSTRUCTION = `
+You are a professional translator for movie subtitles.
+1. Translate the "text" of every entry in "cues" to the target language.
+2. Return {"translations": [{"id": ..., "text": ...}]} with exactly one entry per cue and its "id" unchanged.
+3. Never merge, split, drop or reorder cues, even when a sentence runs across several of them.
+4. "before" and "after" are neighbouring cues given only for context. Do not return them.
+5. Keep line breaks and roughly the same length as the source line.
+`;
+
+// Helper to spell out the project glossary for the model. Transcription only needs the vocabulary;
+// translation (given the target language) also gets the do-not-translate and forced terms.
+export const buildGlossaryInstruction = (glossary: Glossary | undefined, targetLanguage?: string): string => {
+  if (!glossary || isGlossaryEmpty(glossary)) return '';
+  const lines: string[] = [];
+
+  glossary.spellings.forEach(({ term, variants }) => {
+    lines.push(variants.length > 0
+      ? `- Always write "${term}" (never ${variants.map(v => `"${v}"`).join(', ')}).`
+      : `- Always write "${term}" exactly like this.`);
+  });
+  if (targetLanguage === undefined) {
+    glossary.keep.forEach(({ term }) => lines.push(`- Always write "${term}" exactly like this.`));
+  } else {
+    glossary.keep.forEach(({ term }) => lines.push(`- Do not translate "${term}"; keep it exactly as written.`));
+    forcedTranslationsFor(glossary, targetLanguage).forEach(({ source, target }) => {
+      lines.push(`- Always translate "${source}" as "${target}".`);
+    });
+  }
+
+  return lines.length > 0 ? `\nProject glossary (these rules override everything else):\n${lines.join('\n')}\n` : '';
+};
+
+// Whisper has no instructions, only a `prompt` of example text (~224 tokens) that biases its spelling
+export const buildVocabularyPrompt = (glossary: Glossary | undefined): string => {
+  if (!glossary) return '';
+  const terms = [...glossary.spellings.map(entry => entry.term), ...glossary.keep.map(entry => entry.term)];
+  return terms.length > 0 ? `Vocabulary: ${terms.join(', ')}.`.slice(0, 800) : '';
+};
+
+// `batchJson` is a TranslationBatch serialised as JSON
+export const buildTranslationPrompt = (batchJson: string, targetLanguage: string, style: string) => {
+  const styleInstruction = style === 'Standard'
+    ? ''
+    : `IMPORTANT: Translate using a "${style}" tone/style. Adapt idioms and cultural references to match this persona/mood while keeping the meaning intact.`;
+  return `Translate the following subtitle cues into ${targetLanguage}.\n${styleInstruction}\n\n${batchJson}`;
+};
+
+// Higher creativity for styled translations
+export const translationTemperature = (style: string) => (style === 'Standard' ? 0.3 : 0.7);
+
+// Helper to strip the markdown fences models sometimes wrap JSON in
+export const cleanJSONResponse = (text: string) => text.replace(/```json/g, '').replace(/```/g, '').trim();
@@ -0,0 +1,68 @@
+import { SubtitleCue, Glossary, ProviderKind, ProviderSettings, TranscriptionSource } from '../types';
+import { createGeminiProvider } from './geminiService';
+import { createOpenAIProvider } from './openaiService';
+
+export interface TranscribeOptions {
+  duration?: number; // seconds; read from the file's metadata when missing
+  chunkLength?: number;
+  chunkOverlap?: number;
+  source?: TranscriptionSource; // 'audio' sends only the extracted speech track (default)
+  glossary?: Glossary; // names and terms the model should spell our way
+  signal?: AbortSignal; // cancels the job; it then rejects with CancelledError
+}
+
+export interface TranslateOptions {
+  glossary?: Glossary;
+  languageCode?: string; // BCP 47 tag of the target language, to pick the glossary's forced translations
+  signal?: AbortSignal;
+}
+
+// What the app needs from an AI backend. Both calls return cues in absolute time; translate keeps the
+// source cues' ids and timings and only replaces their text. Failures are the typed errors of ./errors.
+export interface SubtitleProvider {
+  transcribe: (file: File, onProgress?: (msg: string) => void, options?: TranscribeOptions) => Promise<SubtitleCue[]>;
+  translate: (
+    cues: SubtitleCue[],
+    targetLanguage: string,
+    style?: string,
+    onProgress?: (msg: string) => void,
+    options?: TranslateOptions
+  ) => Promise<SubtitleCue[]>;
+}
+
+export const PROVIDER_LABELS: Record<ProviderKind, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  provider: 'gemini',
+  gemini: {
+    apiKey: '',
+    model: 'gemini-2.5-flash',
+  },
+  openai: {
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    transcriptionModel: 'whisper-1',
+    chatModel: 'gpt-4o-mini',
+  },
+};
+
+// Helper to tell the user what's missing before a job starts; null when the provider is usable
+export const getProviderSetupError = (settings: ProviderSettings): string | null => {
+  if (settings.provider === 'openai') {
+    return settings.openai.baseUrl.trim() ? null : 'Enter the server URL of your OpenAI-compatible provider in Settings.';
+  }
+  return settings.gemini.apiKey ? null : 'API Key is missing. Please add your Gemini API Key in Settings.';
+};
+
+export const createProvider = (settings: ProviderSettings): SubtitleProvider => {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAIProvider(settings.openai);
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.gemini);
+  }
+};
@@ -3,6 +3,30 @@ export interface SubtitleCue {
   startTime: number; // in seconds
   endTime: number; // in seconds
   text: string;
+  speaker?: string; // who is talking, from diarization or the editor
+  words?: WordTiming[]; // per-word timings from transcription, kept in step with `text`
+  vtt?: VTTCueExtras; // only set for cues imported from WebVTT
+}
+
+export interface WordTiming {
+  text: string; // one whitespace-separated token of the cue text
+  start: number; // in seconds
+  end: number; // in seconds
+}
+
+// WebVTT data we carry along so an imported file exports unchanged
+export interface VTTCueExtras {
+  identifier?: string;
+  timestamps?: [string, string]; // start and end as written in the file, reused while the cue times are unchanged
+  settings?: string; // raw cue settings, e.g. "line:0 position:50% align:start"
+  markup?: string; // payload with tags (<v>, <i>, <b>...), used while it still matches `text`
+  notes?: string[]; // NOTE blocks that preceded this cue
+}
+
+export interface VTTHeader {
+  signature: string; // "WEBVTT" line plus any header text after it
+  blocks: string[]; // STYLE, REGION and NOTE blocks before the first cue
+  trailing: string[]; // NOTE blocks after the last cue
 }
 
 export interface SubtitleStyle {
@@ -13,18 +37,153 @@ export interface SubtitleStyle {
   textShadow: string;
   position: number; // percentage from bottom
   opacity: number;
+  speakerColors?: Record<string, string>; // text colour per speaker name; unset speakers use the palette
+  karaoke?: boolean; // highlight the word being spoken, for cues with word timings
+  highlightColor?: string;
+}
+
+// One named subtitle track of a project, e.g. the transcript or one of its translations
+export interface SubtitleTrack {
+  id: string;
+  name: string;
+  language: string; // BCP 47 tag such as "en" or "vi"; empty when unknown
+  cues: SubtitleCue[];
+  timingSource?: string; // id of the track whose timing this one shares, cue by cue id
+  vttHeader?: VTTHeader | null; // header blocks of the WebVTT file imported into this track
 }
 
 export interface Project {
   id: string;
   name: string;
   lastModified: number;
-  cues: SubtitleCue[];
+  tracks: SubtitleTrack[];
+  activeTrackId: string;
   style: SubtitleStyle;
+  // Dual-subtitle mode: a second track stacked above the active one, with its own style
+  secondaryTrackId?: string | null;
+  secondaryStyle?: SubtitleStyle;
+  glossary?: Glossary;
+  // Single-track fields of projects saved before tracks existed; only read on load
+  cues?: SubtitleCue[];
+  vttHeader?: VTTHeader | null;
+}
+
+// Project vocabulary that transcription and translation are told about and checked against
+export interface Glossary {
+  spellings: GlossarySpelling[];
+  keep: GlossaryKeepTerm[]; // do-not-translate terms
+  forced: GlossaryForcedTranslation[];
+}
+
+// Preferred spelling of a name or term, with the wrong forms to catch
+export interface GlossarySpelling {
+  id: string;
+  term: string; // e.g. "AutoSub"
+  variants: string[]; // e.g. ["Auto Sub", "Autosub"]
+}
+
+export interface GlossaryKeepTerm {
+  id: string;
+  term: string;
+}
+
+// Source term that must always become `target` in one language
+export interface GlossaryForcedTranslation {
+  id: string;
+  source: string;
+  language: string; // BCP 47 tag of the target track, e.g. "vi"
+  target: string;
+}
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ParseDiagnostic {
+  line: number; // 1-based line in the source file
+  severity: DiagnosticSeverity;
+  message: string;
 }
 
+export interface ParseReport {
+  cues: SubtitleCue[];
+  diagnostics: ParseDiagnostic[];
+}
+
+// Delivery limits the QC checker validates cues against
+export interface QCProfile {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  maxCps: number; // characters per second
+  maxCharsPerLine: number;
+  maxLines: number;
+  minDuration: number; // seconds
+  maxDuration: number; // seconds
+  minGap: number; // seconds between consecutive cues
+}
+
+export type QCIssueType = 'cps' | 'line-length' | 'line-count' | 'min-duration' | 'max-duration' | 'gap' | 'overlap' | 'empty' | 'glossary';
+
+export interface QCIssue {
+  cueId: string;
+  type: QCIssueType;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+// What transcription sends to the model: the extracted speech track, or the original file
+export type TranscriptionSource = 'audio' | 'video';
+
+export type ProviderKind = 'gemini' | 'openai';
+
+// Which AI backend transcribes/translates, with per-provider connection details
+export interface ProviderSettings {
+  provider: ProviderKind;
+  gemini: {
+    apiKey: string;
+    model: string;
+  };
+  openai: {
+    baseUrl: string; // e.g. https://api.openai.com/v1 or a self-hosted Whisper server
+    apiKey: string;
+    transcriptionModel: string;
+    chatModel: string;
+  };
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'ssa' | 'ttml' | 'dfxp' | 'sbv';
+
 export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5';
 
+// Burned-in video output. The container decides the codec: WebM holds VP9, MP4 holds H.264.
+export type ExportContainer = 'mp4' | 'webm';
+
+export type ExportResolution = 'original' | '1080p' | '720p';
+
+export interface ExportSettings {
+  container: ExportContainer;
+  resolution: ExportResolution;
+  frameRate: number | 'source';
+  videoBitrate: number; // bits per second
+}
+
+// How the video fills a frame of another aspect ratio: cropped around a focus point, or shrunk with padding
+export type ReframeMode = 'crop' | 'pad';
+
+export type PadFill = 'blur' | 'solid';
+
+// Horizontal centre of the crop at a point in time, 0 (left edge) to 1 (right edge)
+export interface FocusKeyframe {
+  time: number;
+  x: number;
+}
+
+export interface ReframeSettings {
+  mode: ReframeMode;
+  focus: FocusKeyframe[]; // sorted by time; a single keyframe holds the crop still
+  padFill: PadFill;
+  padColor: string;
+}
+
 export interface VideoState {
   file: File | null;
   url: string | null;
@@ -32,4 +191,5 @@ export interface VideoState {
   currentTime: number;
   isPlaying: boolean;
   aspectRatio: AspectRatio;
+  reframe: ReframeSettings;
 }
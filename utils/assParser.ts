@@ -0,0 +1,307 @@
+import { SubtitleCue, SubtitleStyle } from '../types';
+import { createCueId } from './srtParser';
+import { parseCssColor, toCssColor, toHexColor, RGBA } from './colorUtils';
+import { REFERENCE_HEIGHT, TEXT_SHADOW_PRESETS, getTextShadowKind } from './stylePresets';
+
+export type ASSVariant = 'ass' | 'ssa';
+
+export interface ASSParseResult {
+  cues: SubtitleCue[];
+  // Style mapped from the most used [V4+ Styles] entry, null if the file has none
+  style: Partial<SubtitleStyle> | null;
+}
+
+const PLAY_RES_X = 1920;
+const PLAY_RES_Y = 1080;
+// Spec default when a script omits PlayResY
+const DEFAULT_PLAY_RES_Y = 288;
+
+const ASS_STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'OutlineColour', 'BackColour',
+  'Bold', 'Italic', 'Underline', 'StrikeOut', 'ScaleX', 'ScaleY', 'Spacing', 'Angle',
+  'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV', 'Encoding',
+];
+const SSA_STYLE_FORMAT = [
+  'Name', 'Fontname', 'Fontsize', 'PrimaryColour', 'SecondaryColour', 'TertiaryColour', 'BackColour',
+  'Bold', 'Italic', 'BorderStyle', 'Outline', 'Shadow', 'Alignment', 'MarginL', 'MarginR', 'MarginV',
+  'AlphaLevel', 'Encoding',
+];
+const ASS_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+const SSA_EVENT_FORMAT = ['Marked', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+// Helper to convert ASS time (H:MM:SS.cc) to seconds
+export const parseASSTime = (timeString: string): number => {
+  const match = timeString.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.,](\d+))?$/);
+  if (!match) return 0;
+  const fraction = match[4] ? parseInt(match[4], 10) / Math.pow(10, match[4].length) : 0;
+  return parseInt(match[1], 10) * 3600 + parseInt(match[2], 10) * 60 + parseInt(match[3], 10) + fraction;
+};
+
+// Helper to convert seconds to ASS time (centisecond precision)
+export const formatASSTime = (totalSeconds: number): string => {
+  const totalCs = Math.max(0, Math.round(totalSeconds * 100));
+  const hours = Math.floor(totalCs / 360000);
+  const minutes = Math.floor((totalCs % 360000) / 6000);
+  const seconds = Math.floor((totalCs % 6000) / 100);
+  const cs = totalCs % 100;
+
+  const pad = (num: number) => num.toString().padStart(2, '0');
+
+  return `${hours}:${pad(minutes)}:${pad(seconds)}.${pad(cs)}`;
+};
+
+// ASS colours are &HAABBGGRR with inverted alpha (00 = opaque). Old SSA files may use plain decimals.
+const parseASSColor = (value: string | undefined): RGBA | null => {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const num = /^&H/i.test(trimmed)
+    ? parseInt(trimmed.replace(/^&H/i, '').replace(/&$/, ''), 16)
+    : parseInt(trimmed, 10);
+  if (isNaN(num)) return null;
+
+  return {
+    r: num & 0xff,
+    g: (num >>> 8) & 0xff,
+    b: (num >>> 16) & 0xff,
+    a: Math.round((1 - ((num >>> 24) & 0xff) / 255) * 100) / 100,
+  };
+};
+
+const formatASSColor = (rgba: RGBA, variant: ASSVariant): string => {
+  const hex = (n: number) => Math.round(n).toString(16).toUpperCase().padStart(2, '0');
+  const bgr = `${hex(rgba.b)}${hex(rgba.g)}${hex(rgba.r)}`;
+  // SSA v4 keeps transparency in AlphaLevel, not in the colour
+  return variant === 'ssa' ? `&H${bgr}` : `&H${hex((1 - rgba.a) * 255)}${bgr}`;
+};
+
+// Override blocks are dropped; hard breaks become newlines and hard spaces non-breaking spaces
+const assTextToPlain = (text: string): string =>
+  text
+    .replace(/\{[^}]*\}/g, '')
+    .replace(/\\N/g, '\n')
+    .replace(/\\n/g, ' ')
+    .replace(/\\h/g, '\u00A0')
+    .trim();
+
+const plainTextToASS = (text: string): string => text.replace(/\r?\n/g, '\\N');
+
+// Split a "Key: a,b,c" record into exactly `count` fields, keeping commas in the last one (Text)
+const splitFields = (value: string, count: number): string[] => {
+  const parts = value.split(',');
+  if (parts.length <= count) return parts.map(p => p.trim());
+  return [
+    ...parts.slice(0, count - 1).map(p => p.trim()),
+    parts.slice(count - 1).join(','),
+  ];
+};
+
+const toRecord = (format: string[], values: string[]): Record<string, string> => {
+  const record: Record<string, string> = {};
+  format.forEach((key, i) => {
+    record[key.toLowerCase()] = values[i] ?? '';
+  });
+  return record;
+};
+
+const fontFamilyFromName = (name: string): string =>
+  /\s/.test(name) ? `'${name}', sans-serif` : `${name}, sans-serif`;
+
+const mapASSStyle = (record: Record<string, string>, playResY: number): Partial<SubtitleStyle> => {
+  const style: Partial<SubtitleStyle> = {};
+  const scale = REFERENCE_HEIGHT / playResY;
+
+  if (record.fontname) style.fontFamily = fontFamilyFromName(record.fontname);
+
+  const fontSize = parseFloat(record.fontsize);
+  if (!isNaN(fontSize)) style.fontSize = Math.round(fontSize * scale);
+
+  const primary = parseASSColor(record.primarycolour);
+  if (primary) {
+    style.color = toHexColor(primary);
+    style.opacity = primary.a;
+  }
+
+  const borderStyle = parseInt(record.borderstyle, 10);
+  const outline = parseFloat(record.outline) || 0;
+  const shadow = parseFloat(record.shadow) || 0;
+
+  if (borderStyle === 3) {
+    // Opaque box: renderers paint the box with OutlineColour, BackColour is its shadow
+    const box = parseASSColor(record.outlinecolour) || parseASSColor(record.backcolour);
+    style.backgroundColor = box ? toCssColor(box) : 'transparent';
+    style.textShadow = TEXT_SHADOW_PRESETS.none;
+  } else {
+    style.backgroundColor = 'transparent';
+    if (shadow > 0) style.textShadow = TEXT_SHADOW_PRESETS.drop;
+    else if (outline > 0) style.textShadow = TEXT_SHADOW_PRESETS.outline;
+    else style.textShadow = TEXT_SHADOW_PRESETS.none;
+  }
+
+  const marginV = parseFloat(record.marginv);
+  if (!isNaN(marginV)) {
+    style.position = Math.min(90, Math.max(0, Math.round((marginV / playResY) * 100)));
+  }
+
+  return style;
+};
+
+export const parseASS = (content: string): ASSParseResult => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let section = '';
+  let playResY = DEFAULT_PLAY_RES_Y;
+  let styleFormat: string[] = ASS_STYLE_FORMAT;
+  let eventFormat: string[] = ASS_EVENT_FORMAT;
+  const styles: Record<string, Record<string, string>> = {};
+  const styleUsage: Record<string, number> = {};
+  const cues: SubtitleCue[] = [];
+
+  lines.forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line || line.startsWith(';')) return;
+
+    const sectionMatch = line.match(/^\[(.+)\]$/);
+    if (sectionMatch) {
+      section = sectionMatch[1].toLowerCase();
+      // SSA v4 scripts use their own default field order until a Format line says otherwise
+      if (section === 'v4 styles') {
+        styleFormat = SSA_STYLE_FORMAT;
+        eventFormat = SSA_EVENT_FORMAT;
+      }
+      return;
+    }
+
+    const colon = line.indexOf(':');
+    if (colon === -1) return;
+    const key = line.slice(0, colon).trim().toLowerCase();
+    const value = line.slice(colon + 1).trim();
+
+    if (section === 'script info') {
+      if (key === 'playresy') {
+        const parsed = parseInt(value, 10);
+        if (parsed > 0) playResY = parsed;
+      }
+    } else if (section === 'v4+ styles' || section === 'v4 styles') {
+      if (key === 'format') {
+        styleFormat = value.split(',').map(f => f.trim());
+      } else if (key === 'style') {
+        const record = toRecord(styleFormat, splitFields(value, styleFormat.length));
+        styles[record.name] = record;
+      }
+    } else if (section === 'events') {
+      if (key === 'format') {
+        eventFormat = value.split(',').map(f => f.trim());
+      } else if (key === 'dialogue') {
+        const record = toRecord(eventFormat, splitFields(value, eventFormat.length));
+        const text = assTextToPlain(record.text || '');
+        if (!text) return;
+
+        styleUsage[record.style] = (styleUsage[record.style] || 0) + 1;
+        const speaker = record.name?.trim();
+        cues.push({
+          id: createCueId(),
+          startTime: parseASSTime(record.start || ''),
+          endTime: parseASSTime(record.end || ''),
+          text,
+          ...(speaker && { speaker }),
+        });
+      }
+    }
+  });
+
+  // Map the style most lines use, falling back to Default / the first one declared
+  const styleNames = Object.keys(styles);
+  const mostUsed = Object.keys(styleUsage)
+    .filter(name => styles[name])
+    .sort((a, b) => styleUsage[b] - styleUsage[a])[0];
+  const chosen = mostUsed || (styles['Default'] ? 'Default' : styleNames[0]);
+
+  return {
+    cues: cues.sort((a, b) => a.startTime - b.startTime),
+    style: chosen ? mapASSStyle(styles[chosen], playResY) : null,
+  };
+};
+
+const buildStyleLine = (style: SubtitleStyle, variant: ASSVariant): string => {
+  const scale = PLAY_RES_Y / REFERENCE_HEIGHT;
+  const fontName = style.fontFamily.split(',')[0].replace(/['"]/g, '').trim();
+
+  const primary = parseCssColor(style.color) || { r: 255, g: 255, b: 255, a: 1 };
+  primary.a = primary.a * style.opacity;
+  const background = parseCssColor(style.backgroundColor) || { r: 0, g: 0, b: 0, a: 0 };
+  const hasBox = background.a > 0;
+  const black: RGBA = { r: 0, g: 0, b: 0, a: 1 };
+
+  let borderStyle = 1;
+  let outline = 0;
+  let shadow = 0;
+  const shadowKind = getTextShadowKind(style.textShadow);
+  if (hasBox) {
+    // Opaque box; Outline doubles as box padding
+    borderStyle = 3;
+    outline = Math.round(4 * scale);
+  } else if (shadowKind === 'outline') {
+    outline = 2;
+  } else if (shadowKind === 'glow') {
+    outline = 1;
+  } else if (shadowKind === 'drop') {
+    shadow = 2;
+  }
+
+  const outlineColour = hasBox ? background : black;
+  const backColour = hasBox ? background : { ...black, a: 0.5 };
+  const marginV = Math.round((style.position / 100) * PLAY_RES_Y);
+  const fontSize = Math.round(style.fontSize * scale);
+
+  const values: (string | number)[] = variant === 'ssa'
+    ? [
+        'Default', fontName, fontSize, formatASSColor(primary, variant), formatASSColor(primary, variant),
+        formatASSColor(outlineColour, variant), formatASSColor(backColour, variant),
+        -1, 0, borderStyle, outline, shadow, 2, 10, 10, marginV, 0, 1,
+      ]
+    : [
+        'Default', fontName, fontSize, formatASSColor(primary, variant), formatASSColor(primary, variant),
+        formatASSColor(outlineColour, variant), formatASSColor(backColour, variant),
+        -1, 0, 0, 0, 100, 100, 0, 0, borderStyle, outline, shadow, 2, 10, 10, marginV, 1,
+      ];
+
+  return `Style: ${values.join(',')}`;
+};
+
+export const generateASS = (
+  cues: SubtitleCue[],
+  style: SubtitleStyle,
+  variant: ASSVariant = 'ass',
+  title: string = 'AutoSub AI'
+): string => {
+  const isSSA = variant === 'ssa';
+  const styleFormat = isSSA ? SSA_STYLE_FORMAT : ASS_STYLE_FORMAT;
+  const eventFormat = isSSA ? SSA_EVENT_FORMAT : ASS_EVENT_FORMAT;
+
+  const header = [
+    '[Script Info]',
+    '; Generated by AutoSub AI',
+    `Title: ${title}`,
+    `ScriptType: ${isSSA ? 'v4.00' : 'v4.00+'}`,
+    'WrapStyle: 0',
+    ...(isSSA ? [] : ['ScaledBorderAndShadow: yes']),
+    `PlayResX: ${PLAY_RES_X}`,
+    `PlayResY: ${PLAY_RES_Y}`,
+    '',
+    isSSA ? '[V4 Styles]' : '[V4+ Styles]',
+    `Format: ${styleFormat.join(', ')}`,
+    buildStyleLine(style, variant),
+    '',
+    '[Events]',
+    `Format: ${eventFormat.join(', ')}`,
+  ];
+
+  const events = cues.map((cue) => {
+    const first = isSSA ? 'Marked=0' : '0';
+    // The actor (Name) field can't contain the field separator
+    const actor = (cue.speaker || '').replace(/\s*,\s*/g, ' ');
+    return `Dialogue: ${first},${formatASSTime(cue.startTime)},${formatASSTime(cue.endTime)},Default,${actor},0,0,0,,${plainTextToASS(cue.text)}`;
+  });
+
+  return [...header, ...events].join('\n') + '\n';
+};
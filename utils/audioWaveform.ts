@@ -0,0 +1,45 @@
+export interface WaveformData {
+  peaks: Float32Array; // max absolute amplitude per bucket, 0..1
+  peaksPerSecond: number;
+  duration: number;
+}
+
+// Low decode rate: we only need the envelope, and it keeps long files small in memory
+const DECODE_SAMPLE_RATE = 8000;
+
+// Helper to decode the audio track of a media file into an AudioBuffer at the given rate. The buffer keeps
+// the source's channel count; callers fold the channels together. Rejects when the file has no decodable audio.
+export const decodeAudioFile = async (file: File, sampleRate: number = DECODE_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const arrayBuffer = await file.arrayBuffer();
+  // An OfflineAudioContext doesn't need a user gesture and resamples while decoding
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(arrayBuffer);
+};
+
+export const extractWaveformPeaks = async (file: File, peaksPerSecond: number = 100): Promise<WaveformData> => {
+  const buffer = await decodeAudioFile(file);
+  const samplesPerPeak = Math.max(1, Math.floor(buffer.sampleRate / peaksPerSecond));
+  const peakCount = Math.ceil(buffer.length / samplesPerPeak);
+  const peaks = new Float32Array(peakCount);
+
+  // Fold all channels into one envelope
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < peakCount; i++) {
+      const from = i * samplesPerPeak;
+      const to = Math.min(data.length, from + samplesPerPeak);
+      let max = peaks[i];
+      for (let j = from; j < to; j++) {
+        const value = Math.abs(data[j]);
+        if (value > max) max = value;
+      }
+      peaks[i] = max;
+    }
+  }
+
+  return {
+    peaks,
+    peaksPerSecond: buffer.sampleRate / samplesPerPeak,
+    duration: buffer.duration,
+  };
+};
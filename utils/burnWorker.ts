@@ -0,0 +1,24 @@
+// Worker entry for WebCodecs burn-in, so decoding and encoding never block the editor
+import { BurnWorkerRequest, BurnWorkerMessage } from './videoProcessor';
+import { burnWithWebCodecs } from './webCodecsBurn';
+
+const post = (message: BurnWorkerMessage) => self.postMessage(message);
+
+// Progress goes out at most every 100ms; a message per frame would flood the page
+const PROGRESS_INTERVAL = 100;
+
+self.onmessage = async (event: MessageEvent<BurnWorkerRequest>) => {
+  const { file, cues, style, settings, framing, secondary } = event.data;
+  let lastReport = 0;
+  try {
+    const blob = await burnWithWebCodecs(file, cues, style, settings, framing, (framesDone, totalFrames) => {
+      const now = performance.now();
+      if (now - lastReport < PROGRESS_INTERVAL && framesDone < totalFrames) return;
+      lastReport = now;
+      post({ type: 'progress', framesDone, totalFrames });
+    }, secondary);
+    post({ type: 'done', blob });
+  } catch (error: any) {
+    post({ type: 'error', message: error?.message || String(error) });
+  }
+};
@@ -0,0 +1,61 @@
+export interface RGBA {
+  r: number;
+  g: number;
+  b: number;
+  a: number; // 0..1
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Helper to parse the CSS colours we store in SubtitleStyle (#rgb, #rrggbb, #rrggbbaa, rgb(), rgba(), transparent)
+export const parseCssColor = (color: string): RGBA | null => {
+  if (!color) return null;
+  const value = color.trim().toLowerCase();
+
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, a: 0 };
+
+  if (value.startsWith('#')) {
+    let hex = value.slice(1);
+    if (hex.length === 3 || hex.length === 4) {
+      hex = hex.split('').map(ch => ch + ch).join('');
+    }
+    if (hex.length !== 6 && hex.length !== 8) return null;
+    const num = (i: number) => parseInt(hex.slice(i, i + 2), 16);
+    if ([0, 2, 4].some(i => isNaN(num(i)))) return null;
+    return {
+      r: num(0),
+      g: num(2),
+      b: num(4),
+      a: hex.length === 8 ? Math.round((num(6) / 255) * 100) / 100 : 1,
+    };
+  }
+
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (match) {
+    const parts = match[1].split(/[\s,/]+/).filter(Boolean).map(p => parseFloat(p));
+    if (parts.length < 3 || parts.slice(0, 3).some(isNaN)) return null;
+    return {
+      r: clamp(Math.round(parts[0]), 0, 255),
+      g: clamp(Math.round(parts[1]), 0, 255),
+      b: clamp(Math.round(parts[2]), 0, 255),
+      a: parts.length > 3 && !isNaN(parts[3]) ? clamp(parts[3], 0, 1) : 1,
+    };
+  }
+
+  return null;
+};
+
+const hex2 = (n: number) => clamp(Math.round(n), 0, 255).toString(16).padStart(2, '0');
+
+// #rrggbb, ignoring alpha
+export const toHexColor = ({ r, g, b }: RGBA): string => `#${hex2(r)}${hex2(g)}${hex2(b)}`;
+
+// #rrggbbaa, used where a format expects alpha in the hex notation (TTML)
+export const toHexAlphaColor = (rgba: RGBA): string => `${toHexColor(rgba)}${hex2(rgba.a * 255)}`;
+
+// Opaque colours become #rrggbb so they stay compatible with <input type="color">
+export const toCssColor = (rgba: RGBA): string => {
+  if (rgba.a <= 0) return 'transparent';
+  if (rgba.a >= 1) return toHexColor(rgba);
+  return `rgba(${rgba.r},${rgba.g},${rgba.b},${Math.round(rgba.a * 1000) / 1000})`;
+};
@@ -0,0 +1,114 @@
+import { SubtitleCue } from '../types';
+import { createCueId } from './srtParser';
+import { MIN_CUE_DURATION, roundTime } from './cueTiming';
+import { tokenizeWords, distributeWords } from './wordTimings';
+
+interface SplitOptions {
+  textIndex?: number | null; // caret position in the cue text
+  time?: number | null; // playhead, used when it falls inside the cue
+}
+
+// Nearest space to `index`, so proportional splits don't cut words in half
+const snapToWordBoundary = (text: string, index: number): number => {
+  let best = -1;
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i]) && (best === -1 || Math.abs(i - index) < Math.abs(best - index))) best = i;
+  }
+  return best === -1 ? index : best;
+};
+
+// Helper to split one cue in two. Text splits at the caret (or proportionally to the playhead),
+// time splits at the playhead (or proportionally to the caret).
+export const splitCue = (cue: SubtitleCue, { textIndex, time }: SplitOptions): [SubtitleCue, SubtitleCue] | null => {
+  const duration = cue.endTime - cue.startTime;
+  if (duration < MIN_CUE_DURATION * 2) return null;
+
+  const timeInside = time !== null && time !== undefined &&
+    time >= cue.startTime + MIN_CUE_DURATION && time <= cue.endTime - MIN_CUE_DURATION;
+  const caretInside = textIndex !== null && textIndex !== undefined &&
+    textIndex > 0 && textIndex < cue.text.length;
+
+  let index: number;
+  if (caretInside) {
+    index = textIndex!;
+  } else if (timeInside) {
+    index = snapToWordBoundary(cue.text, Math.round(cue.text.length * ((time! - cue.startTime) / duration)));
+  } else {
+    index = snapToWordBoundary(cue.text, Math.round(cue.text.length / 2));
+  }
+
+  const firstText = cue.text.slice(0, index).trim();
+  const wordCount = tokenizeWords(firstText).length;
+  const nextWord = cue.words?.[wordCount];
+
+  let splitTime: number;
+  if (timeInside) {
+    splitTime = time!;
+  } else if (nextWord) {
+    // Word timings know exactly when the second half starts
+    splitTime = nextWord.start;
+  } else {
+    const ratio = cue.text.length > 0 ? index / cue.text.length : 0.5;
+    splitTime = cue.startTime + duration * ratio;
+  }
+  splitTime = roundTime(Math.min(cue.endTime - MIN_CUE_DURATION, Math.max(cue.startTime + MIN_CUE_DURATION, splitTime)));
+
+  const first: SubtitleCue = {
+    ...cue,
+    endTime: splitTime,
+    text: firstText,
+    ...(cue.words && { words: cue.words.slice(0, wordCount) }),
+  };
+  const { vtt, ...rest } = cue;
+  const second: SubtitleCue = {
+    ...rest,
+    id: createCueId(),
+    startTime: splitTime,
+    text: cue.text.slice(index).trim(),
+    ...(cue.words && { words: cue.words.slice(wordCount) }),
+    // Identifier and notes belong to the original cue; positioning settings apply to both halves
+    ...(vtt?.settings ? { vtt: { settings: vtt.settings } } : {}),
+  };
+
+  return [first, second];
+};
+
+// Helper to merge cues into one: text joined in order, times unioned. Keeps the first cue's id and extras.
+// Word timings are concatenated; cues without them get evenly spread words so karaoke keeps working.
+export const mergeCues = (toMerge: SubtitleCue[]): SubtitleCue => {
+  const sorted = [...toMerge].sort((a, b) => a.startTime - b.startTime);
+  const hasWords = sorted.some(c => c.words);
+  return {
+    ...sorted[0],
+    startTime: Math.min(...sorted.map(c => c.startTime)),
+    endTime: Math.max(...sorted.map(c => c.endTime)),
+    text: sorted.map(c => c.text.trim()).filter(Boolean).join(' '),
+    ...(hasWords && {
+      words: sorted.flatMap(c => c.words || distributeWords(tokenizeWords(c.text), c.startTime, c.endTime)),
+    }),
+  };
+};
+
+export const splitCueInList = (cues: SubtitleCue[], id: string, options: SplitOptions): SubtitleCue[] | null => {
+  const index = cues.findIndex(c => c.id === id);
+  if (index === -1) return null;
+  const parts = splitCue(cues[index], options);
+  if (!parts) return null;
+  return [...cues.slice(0, index), ...parts, ...cues.slice(index + 1)];
+};
+
+// Only adjacent cues can be merged, otherwise the merged cue would cover the ones in between
+export const canMergeCues = (cues: SubtitleCue[], ids: string[]): boolean => {
+  if (ids.length < 2) return false;
+  const indices = ids.map(id => cues.findIndex(c => c.id === id)).sort((a, b) => a - b);
+  if (indices[0] === -1) return false;
+  return indices.every((value, i) => i === 0 || value === indices[i - 1] + 1);
+};
+
+export const mergeCuesInList = (cues: SubtitleCue[], ids: string[]): SubtitleCue[] | null => {
+  if (!canMergeCues(cues, ids)) return null;
+  const selected = new Set(ids);
+  const firstIndex = cues.findIndex(c => selected.has(c.id));
+  const merged = mergeCues(cues.filter(c => selected.has(c.id)));
+  return [...cues.slice(0, firstIndex), merged, ...cues.slice(firstIndex + ids.length)];
+};
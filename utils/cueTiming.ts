@@ -0,0 +1,37 @@
+import { SubtitleCue } from '../types';
+
+// We don't read the real frame rate from the file, so frame nudges assume 30 fps
+export const DEFAULT_FRAME_RATE = 30;
+
+// Shortest cue we allow when editing timings by hand
+export const MIN_CUE_DURATION = 0.1;
+
+// Round to whole milliseconds so repeated nudges don't accumulate float noise
+export const roundTime = (seconds: number): number => Math.round(seconds * 1000) / 1000;
+
+// Helper to check new timings for a cue against its neighbours (cues are sorted by start) and the video length.
+// Returns a message for the user, or null when the timing is valid.
+export const validateCueTiming = (
+  cues: SubtitleCue[],
+  id: string,
+  startTime: number,
+  endTime: number,
+  duration: number
+): string | null => {
+  if (startTime < 0) return 'Start time cannot be negative.';
+  if (endTime - startTime < MIN_CUE_DURATION - 1e-6) {
+    return endTime <= startTime
+      ? 'End time must be after start time.'
+      : `Cue must last at least ${MIN_CUE_DURATION * 1000} ms.`;
+  }
+  if (duration > 0 && endTime > duration + 1e-6) return 'End time is past the end of the video.';
+
+  const index = cues.findIndex(c => c.id === id);
+  const previous = index > 0 ? cues[index - 1] : undefined;
+  const next = index >= 0 && index < cues.length - 1 ? cues[index + 1] : undefined;
+
+  if (previous && startTime < previous.endTime - 1e-6) return 'Start time overlaps the previous subtitle.';
+  if (next && endTime > next.startTime + 1e-6) return 'End time overlaps the next subtitle.';
+
+  return null;
+};
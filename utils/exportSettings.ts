@@ -0,0 +1,67 @@
+import { ExportContainer, ExportResolution, ExportSettings } from '../types';
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  container: 'mp4',
+  resolution: 'original',
+  frameRate: 'source',
+  videoBitrate: 8_000_000,
+};
+
+export const EXPORT_AUDIO_BITRATE = 192_000;
+
+// Frame rate used when the source rate can't be followed (real-time recording)
+export const FALLBACK_FRAME_RATE = 30;
+
+export const CONTAINER_LABELS: Record<ExportContainer, string> = {
+  mp4: 'MP4 (H.264)',
+  webm: 'WebM (VP9)',
+};
+
+export const RESOLUTION_LABELS: Record<ExportResolution, string> = {
+  original: 'Original',
+  '1080p': '1080p',
+  '720p': '720p',
+};
+
+export const FRAME_RATE_OPTIONS: ExportSettings['frameRate'][] = ['source', 24, 25, 30, 60];
+
+export const BITRATE_OPTIONS: { bitrate: number; label: string }[] = [
+  { bitrate: 2_500_000, label: 'Low (2.5 Mbps)' },
+  { bitrate: 5_000_000, label: 'Medium (5 Mbps)' },
+  { bitrate: 8_000_000, label: 'High (8 Mbps)' },
+  { bitrate: 16_000_000, label: 'Very High (16 Mbps)' },
+];
+
+// WebCodecs encoder configurations per container, tried in order. The mediabunny codec name goes with
+// the codec string VideoEncoder is configured with.
+export const ENCODER_CODECS: Record<ExportContainer, { codec: 'avc' | 'vp9'; codecString: string }[]> = {
+  mp4: [
+    { codec: 'avc', codecString: 'avc1.640033' },
+    { codec: 'avc', codecString: 'avc1.4d0033' },
+  ],
+  webm: [
+    { codec: 'vp9', codecString: 'vp09.00.51.08' },
+  ],
+};
+
+// MediaRecorder types per container, tried in order when recording playback instead
+export const RECORDER_TYPES: Record<ExportContainer, string[]> = {
+  mp4: ['video/mp4; codecs=avc1.640028,mp4a.40.2', 'video/mp4'],
+  webm: ['video/webm; codecs=vp9,opus', 'video/webm'],
+};
+
+// Output frame size for a source size. Presets set the shorter side (so portrait 1080p is 1080 wide),
+// never upscale, and round to even numbers as encoders require.
+export const exportDimensions = (width: number, height: number, resolution: ExportResolution): { width: number; height: number } => {
+  const target = resolution === '1080p' ? 1080 : resolution === '720p' ? 720 : Infinity;
+  const scale = Math.min(1, target / Math.min(width, height));
+  return { width: Math.floor((width * scale) / 2) * 2, height: Math.floor((height * scale) / 2) * 2 };
+};
+
+// Rough size of the export in bytes; encoders land near the target bitrate over a whole video
+export const estimateExportSize = (settings: ExportSettings, duration: number): number =>
+  ((settings.videoBitrate + EXPORT_AUDIO_BITRATE) * duration) / 8;
+
+// Helper to name the download after the container that was actually written
+export const exportFileName = (mimeType: string): string =>
+  `video_with_subs.${mimeType.includes('mp4') ? 'mp4' : 'webm'}`;
@@ -0,0 +1,85 @@
+import { SubtitleCue } from '../types';
+
+export interface SearchOptions {
+  regex: boolean;
+  caseSensitive: boolean;
+  wholeWord: boolean;
+}
+
+export interface SearchMatch {
+  cueId: string;
+  index: number; // offset in cue.text
+  length: number;
+  groups: string[]; // full match followed by capture groups, for $1-style replacements
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Helper to build the search pattern. Throws SyntaxError for an invalid user regex.
+// Whole-word uses Unicode letter classes because \b only understands ASCII (breaks on Vietnamese, etc.)
+export const buildSearchRegex = (query: string, options: SearchOptions): RegExp | null => {
+  if (!query) return null;
+  let source = options.regex ? query : escapeRegExp(query);
+  if (options.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`;
+  return new RegExp(source, `gu${options.caseSensitive ? '' : 'i'}`);
+};
+
+export const findMatches = (cues: SubtitleCue[], pattern: RegExp): SearchMatch[] => {
+  const matches: SearchMatch[] = [];
+  cues.forEach((cue) => {
+    for (const match of cue.text.matchAll(pattern)) {
+      // Zero-length matches (e.g. "^") can't be navigated or replaced meaningfully
+      if (match[0].length === 0) continue;
+      matches.push({ cueId: cue.id, index: match.index ?? 0, length: match[0].length, groups: Array.from(match, g => g ?? '') });
+    }
+  });
+  return matches;
+};
+
+// $1, $2... and $& expand in regex mode; plain mode inserts the replacement literally
+const expandReplacement = (replacement: string, groups: string[], regex: boolean): string => {
+  if (!regex) return replacement;
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === '$') return '$';
+    if (ref === '&') return groups[0];
+    const group = groups[parseInt(ref, 10)];
+    return group === undefined ? token : group;
+  });
+};
+
+export const replaceMatch = (
+  cues: SubtitleCue[],
+  match: SearchMatch,
+  replacement: string,
+  options: SearchOptions
+): SubtitleCue[] => {
+  return cues.map((cue) => {
+    if (cue.id !== match.cueId) return cue;
+    const value = expandReplacement(replacement, match.groups, options.regex);
+    return { ...cue, text: cue.text.slice(0, match.index) + value + cue.text.slice(match.index + match.length) };
+  });
+};
+
+export const replaceAllMatches = (
+  cues: SubtitleCue[],
+  pattern: RegExp,
+  replacement: string,
+  options: SearchOptions
+): { cues: SubtitleCue[]; count: number } => {
+  let count = 0;
+  const updated = cues.map((cue) => {
+    let changed = false;
+    const text = cue.text.replace(pattern, (...args) => {
+      const matched: string = args[0];
+      if (matched.length === 0) return matched;
+      // replace() passes groups, then offset, string (and named groups); keep only the groups
+      const groupCount = args.findIndex(arg => typeof arg === 'number') - 1;
+      const groups = [matched, ...args.slice(1, 1 + groupCount).map((g: string | undefined) => g ?? '')];
+      count++;
+      changed = true;
+      return expandReplacement(replacement, groups, options.regex);
+    });
+    return changed ? { ...cue, text } : cue;
+  });
+  return { cues: updated, count };
+};
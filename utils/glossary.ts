@@ -0,0 +1,68 @@
+import { Glossary, GlossaryForcedTranslation, QCIssue, SubtitleCue } from '../types';
+
+export const EMPTY_GLOSSARY: Glossary = { spellings: [], keep: [], forced: [] };
+
+export const isGlossaryEmpty = (glossary: Glossary | undefined): boolean =>
+  !glossary || (glossary.spellings.length === 0 && glossary.keep.length === 0 && glossary.forced.length === 0);
+
+// Helper to trim every entry and drop the ones left blank, e.g. after editing in the glossary dialog
+export const cleanGlossary = (glossary: Glossary): Glossary => ({
+  spellings: glossary.spellings
+    .map(entry => ({ ...entry, term: entry.term.trim(), variants: entry.variants.map(v => v.trim()).filter(Boolean) }))
+    .filter(entry => entry.term),
+  keep: glossary.keep.map(entry => ({ ...entry, term: entry.term.trim() })).filter(entry => entry.term),
+  forced: glossary.forced
+    .map(entry => ({ ...entry, source: entry.source.trim(), language: entry.language.trim(), target: entry.target.trim() }))
+    .filter(entry => entry.source && entry.language && entry.target),
+});
+
+// Forced translations that apply to one target language; "pt" entries also cover "pt-BR"
+export const forcedTranslationsFor = (glossary: Glossary | undefined, language: string | undefined): GlossaryForcedTranslation[] => {
+  if (!glossary || !language) return [];
+  const base = language.toLowerCase().split('-')[0];
+  return glossary.forced.filter(entry => entry.language.toLowerCase() === language.toLowerCase() || entry.language.toLowerCase() === base);
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Helper to find a term as a whole word (or words), so "Sub" doesn't match inside "Subtitle"
+const containsTerm = (text: string, term: string, ignoreCase: boolean): boolean =>
+  new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`, ignoreCase ? 'iu' : 'u').test(text);
+
+// Flags cues that break the glossary. Spellings are checked on every cue; do-not-translate terms and
+// forced translations need the source cue, found by id in `sourceCues` (the track this one was translated from).
+export const checkGlossary = (
+  cues: SubtitleCue[],
+  glossary: Glossary | undefined,
+  sourceCues?: SubtitleCue[],
+  language?: string
+): QCIssue[] => {
+  if (!glossary || isGlossaryEmpty(glossary)) return [];
+  const issues: QCIssue[] = [];
+  const add = (cueId: string, message: string) => issues.push({ cueId, type: 'glossary', severity: 'warning', message });
+  const sources = new Map((sourceCues || []).map(cue => [cue.id, cue.text] as [string, string]));
+  const forced = forcedTranslationsFor(glossary, language);
+
+  cues.forEach((cue) => {
+    glossary.spellings.forEach(({ term, variants }) => {
+      const wrong = variants.find(variant => variant !== term && containsTerm(cue.text, variant, variant.toLowerCase() !== term.toLowerCase()));
+      if (wrong) add(cue.id, `Write "${term}" instead of "${wrong}".`);
+    });
+
+    const source = sources.get(cue.id);
+    if (source === undefined) return;
+
+    glossary.keep.forEach(({ term }) => {
+      if (containsTerm(source, term, true) && !containsTerm(cue.text, term, false)) {
+        add(cue.id, `Keep "${term}" untranslated.`);
+      }
+    });
+    forced.forEach(({ source: from, target }) => {
+      if (containsTerm(source, from, true) && !containsTerm(cue.text, target, true)) {
+        add(cue.id, `Translate "${from}" as "${target}".`);
+      }
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,107 @@
+import { AudioSample, AudioSampleSource, BufferTarget, OggOutputFormat, Output, canEncodeAudio } from 'mediabunny';
+import { decodeAudioFile } from './audioWaveform';
+
+// Speech recognisers work at 16 kHz; anything above only adds bytes
+export const SPEECH_SAMPLE_RATE = 16000;
+// Opus at this rate keeps speech intelligible to the recognisers at about 3 KB per second
+const SPEECH_BITRATE = 24000;
+// Samples handed to the encoder at a time, in seconds
+const ENCODE_BLOCK = 1;
+
+export interface SpeechAudio {
+  samples: Float32Array; // mono, -1..1
+  sampleRate: number;
+  duration: number;
+}
+
+// Helper to pull the audio track out of a media file as 16 kHz mono PCM.
+// Rejects with a readable error when the file has no decodable audio.
+export const extractSpeechAudio = async (file: File, sampleRate: number = SPEECH_SAMPLE_RATE): Promise<SpeechAudio> => {
+  let buffer: AudioBuffer;
+  try {
+    buffer = await decodeAudioFile(file, sampleRate);
+  } catch (e) {
+    throw new Error("Could not decode an audio track from this file.");
+  }
+
+  // decodeAudioData keeps the source channel count, so downmix by averaging
+  if (buffer.numberOfChannels === 1) {
+    return { samples: buffer.getChannelData(0), sampleRate: buffer.sampleRate, duration: buffer.duration };
+  }
+  const samples = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      samples[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+
+  return { samples, sampleRate: buffer.sampleRate, duration: buffer.duration };
+};
+
+// Helper to cut [start, end) seconds out of the extracted audio without copying
+export const sliceSpeechAudio = (audio: SpeechAudio, start: number, end: number): Float32Array => {
+  const from = Math.max(0, Math.floor(start * audio.sampleRate));
+  const to = Math.min(audio.samples.length, Math.ceil(end * audio.sampleRate));
+  return audio.samples.subarray(from, Math.max(from, to));
+};
+
+// Helper to encode mono samples for upload: Ogg Opus where the browser can encode it (WebCodecs),
+// otherwise WAV. The Blob's type says which.
+export const encodeSpeechAudio = async (samples: Float32Array, sampleRate: number): Promise<Blob> => {
+  if (!(await canEncodeAudio('opus', { numberOfChannels: 1, sampleRate, bitrate: SPEECH_BITRATE }))) {
+    return encodeWav(samples, sampleRate);
+  }
+
+  const output = new Output({ format: new OggOutputFormat(), target: new BufferTarget() });
+  const source = new AudioSampleSource({ codec: 'opus', bitrate: SPEECH_BITRATE });
+  output.addAudioTrack(source);
+  await output.start();
+
+  const blockSize = ENCODE_BLOCK * sampleRate;
+  for (let from = 0; from < samples.length; from += blockSize) {
+    const sample = new AudioSample({
+      data: samples.slice(from, from + blockSize),
+      format: 'f32',
+      numberOfChannels: 1,
+      sampleRate,
+      timestamp: from / sampleRate,
+    });
+    await source.add(sample);
+    sample.close();
+  }
+  await output.finalize();
+
+  // The format itself reports application/ogg; the providers want to be told it's audio
+  return new Blob([output.target.buffer!], { type: 'audio/ogg' });
+};
+
+// Helper to encode mono samples as a 16-bit PCM WAV file (32 KB per second at 16 kHz)
+export const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const dataSize = samples.length * 2;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true); // block align
+  view.setUint16(34, 16, true); // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(44 + i * 2, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+
+  return new Blob([view], { type: 'audio/wav' });
+};
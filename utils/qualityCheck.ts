@@ -0,0 +1,111 @@
+import { SubtitleCue, QCProfile, QCIssue, QCIssueType } from '../types';
+
+export const QC_PROFILES: QCProfile[] = [
+  {
+    id: 'netflix',
+    name: 'Netflix-like',
+    builtIn: true,
+    maxCps: 20,
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 5 / 6,
+    maxDuration: 7,
+    minGap: 2 / 24, // two frames at 24 fps
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    builtIn: true,
+    maxCps: 25,
+    maxCharsPerLine: 42,
+    maxLines: 2,
+    minDuration: 1,
+    maxDuration: 7,
+    minGap: 0,
+  },
+  {
+    id: 'social',
+    name: 'Social (vertical)',
+    builtIn: true,
+    maxCps: 17,
+    maxCharsPerLine: 32,
+    maxLines: 2,
+    minDuration: 0.7,
+    maxDuration: 5,
+    minGap: 0,
+  },
+];
+
+export const QC_ISSUE_LABELS: Record<QCIssueType, string> = {
+  cps: 'Reading speed',
+  'line-length': 'Line length',
+  'line-count': 'Line count',
+  'min-duration': 'Too short',
+  'max-duration': 'Too long',
+  gap: 'Gap too small',
+  overlap: 'Overlap',
+  empty: 'Empty',
+  glossary: 'Glossary',
+};
+
+// Frame-level tolerance so values that round to the limit don't get flagged
+const EPSILON = 0.001;
+
+// Helper to count the characters a viewer reads: line breaks don't count, spaces do
+export const readableLength = (text: string): number => text.replace(/\r?\n/g, '').length;
+
+export const runQualityCheck = (cues: SubtitleCue[], profile: QCProfile): QCIssue[] => {
+  const issues: QCIssue[] = [];
+  const add = (cueId: string, type: QCIssueType, severity: QCIssue['severity'], message: string) =>
+    issues.push({ cueId, type, severity, message });
+
+  cues.forEach((cue, index) => {
+    const duration = cue.endTime - cue.startTime;
+    const text = cue.text.trim();
+
+    if (!text) {
+      add(cue.id, 'empty', 'error', 'Cue has no text.');
+    } else {
+      const lines = text.split(/\r?\n/);
+      if (lines.length > profile.maxLines) {
+        add(cue.id, 'line-count', 'warning', `${lines.length} lines (max ${profile.maxLines}).`);
+      }
+      const longest = Math.max(...lines.map(line => line.length));
+      if (longest > profile.maxCharsPerLine) {
+        add(cue.id, 'line-length', 'warning', `Line has ${longest} characters (max ${profile.maxCharsPerLine}).`);
+      }
+      if (duration > 0) {
+        const cps = readableLength(text) / duration;
+        if (cps > profile.maxCps + EPSILON) {
+          add(cue.id, 'cps', 'warning', `${cps.toFixed(1)} characters/second (max ${profile.maxCps}).`);
+        }
+      }
+    }
+
+    if (duration < profile.minDuration - EPSILON) {
+      add(cue.id, 'min-duration', 'warning', `Lasts ${duration.toFixed(2)}s (min ${profile.minDuration.toFixed(2)}s).`);
+    } else if (duration > profile.maxDuration + EPSILON) {
+      add(cue.id, 'max-duration', 'warning', `Lasts ${duration.toFixed(2)}s (max ${profile.maxDuration.toFixed(2)}s).`);
+    }
+
+    const next = cues[index + 1];
+    if (next) {
+      const gap = next.startTime - cue.endTime;
+      if (gap < -EPSILON) {
+        add(cue.id, 'overlap', 'error', `Overlaps the next cue by ${(-gap).toFixed(3)}s.`);
+      } else if (gap < profile.minGap - EPSILON) {
+        add(cue.id, 'gap', 'warning', `Gap to next cue is ${gap.toFixed(3)}s (min ${profile.minGap.toFixed(3)}s).`);
+      }
+    }
+  });
+
+  return issues;
+};
+
+export const groupIssuesByCue = (issues: QCIssue[]): Record<string, QCIssue[]> => {
+  const grouped: Record<string, QCIssue[]> = {};
+  issues.forEach((issue) => {
+    (grouped[issue.cueId] = grouped[issue.cueId] || []).push(issue);
+  });
+  return grouped;
+};
@@ -0,0 +1,82 @@
+import { AspectRatio, FocusKeyframe, ReframeMode, ReframeSettings } from '../types';
+
+export const DEFAULT_REFRAME: ReframeSettings = {
+  mode: 'crop',
+  focus: [{ time: 0, x: 0.5 }],
+  padFill: 'blur',
+  padColor: '#000000',
+};
+
+export const ASPECT_RATIO_VALUES: Record<AspectRatio, number> = {
+  '16:9': 16 / 9,
+  '9:16': 9 / 16,
+  '1:1': 1,
+  '4:5': 4 / 5,
+};
+
+// Keyframes closer than this to the playhead are edited rather than added next to
+const KEYFRAME_TOLERANCE = 0.1;
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Crop focus at a time, easing linearly between keyframes and holding before the first and after the last
+export const focusAt = (keyframes: FocusKeyframe[], time: number): number => {
+  if (keyframes.length === 0) return 0.5;
+  const next = keyframes.findIndex(k => k.time > time);
+  if (next === 0) return keyframes[0].x;
+  if (next === -1) return keyframes[keyframes.length - 1].x;
+  const a = keyframes[next - 1];
+  const b = keyframes[next];
+  return a.x + ((b.x - a.x) * (time - a.time)) / (b.time - a.time);
+};
+
+// Sets the focus at a time. A still crop (one keyframe) just moves; an animated one gets a keyframe at
+// `time`, replacing any keyframe already there. Pass `addKeyframe` to turn a still crop into an animated one.
+export const setFocusAt = (keyframes: FocusKeyframe[], time: number, x: number, addKeyframe: boolean = false): FocusKeyframe[] => {
+  const clamped = Math.min(1, Math.max(0, x));
+  if (keyframes.length <= 1 && !addKeyframe) return [{ time: 0, x: clamped }];
+  const kept = keyframes.filter(k => Math.abs(k.time - time) > KEYFRAME_TOLERANCE);
+  return [...kept, { time, x: clamped }].sort((a, b) => a.time - b.time);
+};
+
+// Size of the reframed output at the source's scale: a crop keeps the source's short side, padding its long side
+export const reframeSize = (
+  sourceWidth: number,
+  sourceHeight: number,
+  aspectRatio: AspectRatio,
+  mode: ReframeMode
+): { width: number; height: number } => {
+  const ratio = ASPECT_RATIO_VALUES[aspectRatio];
+  const narrower = ratio < sourceWidth / sourceHeight;
+  const keepHeight = mode === 'crop' ? narrower : !narrower;
+  const width = keepHeight ? sourceHeight * ratio : sourceWidth;
+  const height = keepHeight ? sourceHeight : sourceWidth / ratio;
+  return { width: Math.round(width / 2) * 2, height: Math.round(height / 2) * 2 };
+};
+
+// Where the source video is drawn inside an output frame. A crop covers the frame and slides with the
+// focus point (the vertical overflow of a wider target stays centred); padding fits it in the middle.
+export const videoPlacement = (
+  sourceWidth: number,
+  sourceHeight: number,
+  frameWidth: number,
+  frameHeight: number,
+  mode: ReframeMode,
+  focus: number
+): Rect => {
+  const fit = mode === 'crop' ? Math.max : Math.min;
+  const scale = fit(frameWidth / sourceWidth, frameHeight / sourceHeight);
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  return {
+    x: (frameWidth - width) * (mode === 'crop' ? focus : 0.5),
+    y: (frameHeight - height) / 2,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,65 @@
+import { SubtitleCue } from '../types';
+import { roundTime } from './cueTiming';
+import { mapWordTimes } from './wordTimings';
+
+export interface RetimeAnchor {
+  cueId: string;
+  targetTime: number; // where the cue should start
+}
+
+export interface FrameRatePreset {
+  label: string;
+  from: number;
+  to: number;
+}
+
+// Common conversions between film, PAL and NTSC cuts
+export const FRAME_RATE_PRESETS: FrameRatePreset[] = [
+  { label: '23.976 → 25', from: 24000 / 1001, to: 25 },
+  { label: '25 → 23.976', from: 25, to: 24000 / 1001 },
+  { label: '23.976 → 24', from: 24000 / 1001, to: 24 },
+  { label: '24 → 23.976', from: 24, to: 24000 / 1001 },
+  { label: '24 → 25', from: 24, to: 25 },
+  { label: '25 → 24', from: 25, to: 24 },
+  { label: '29.97 → 25', from: 30000 / 1001, to: 25 },
+  { label: '25 → 29.97', from: 25, to: 30000 / 1001 },
+];
+
+// Applies t' = scale * t + offset to the cues whose start is at or after `fromTime`, never going below 0
+const mapTimes = (cues: SubtitleCue[], scale: number, offset: number, fromTime: number = -Infinity): SubtitleCue[] => {
+  const map = (time: number) => roundTime(Math.max(0, time * scale + offset));
+  return cues.map((cue) => {
+    if (cue.startTime < fromTime) return cue;
+    return {
+      ...cue,
+      startTime: map(cue.startTime),
+      endTime: map(cue.endTime),
+      ...(cue.words && { words: mapWordTimes(cue.words, map) }),
+    };
+  });
+};
+
+// Helper to shift every cue (or only those starting at/after `fromTime`) by a constant offset
+export const shiftCues = (cues: SubtitleCue[], offset: number, fromTime?: number): SubtitleCue[] =>
+  mapTimes(cues, 1, offset, fromTime);
+
+// Helper to stretch timings linearly so two chosen cues land on their correct start times.
+// Returns null when the anchors can't define a line (same cue or same original time).
+export const linearRetime = (cues: SubtitleCue[], a: RetimeAnchor, b: RetimeAnchor): SubtitleCue[] | null => {
+  const cueA = cues.find(c => c.id === a.cueId);
+  const cueB = cues.find(c => c.id === b.cueId);
+  if (!cueA || !cueB || cueA.id === cueB.id) return null;
+
+  const span = cueB.startTime - cueA.startTime;
+  if (Math.abs(span) < 0.001) return null;
+
+  const scale = (b.targetTime - a.targetTime) / span;
+  if (scale <= 0) return null;
+  const offset = a.targetTime - cueA.startTime * scale;
+
+  return mapTimes(cues, scale, offset);
+};
+
+// Subtitles timed for `fromFps` playback moved to a `toFps` version of the same cut
+export const convertFrameRate = (cues: SubtitleCue[], fromFps: number, toFps: number): SubtitleCue[] =>
+  mapTimes(cues, fromFps / toFps, 0);
@@ -0,0 +1,56 @@
+import { SubtitleCue } from '../types';
+import { createCueId } from './srtParser';
+
+const TIMING_REGEX = /^(\d+:\d{1,2}:\d{1,2}(?:\.\d+)?)\s*,\s*(\d+:\d{1,2}:\d{1,2}(?:\.\d+)?)$/;
+
+// Helper to convert SBV time (H:MM:SS.mmm) to seconds
+export const parseSBVTime = (timeString: string): number => {
+  const [hours, minutes, seconds] = timeString.trim().split(':');
+  return parseInt(hours, 10) * 3600 + parseInt(minutes, 10) * 60 + parseFloat(seconds);
+};
+
+// Helper to convert seconds to SBV time (hours are not zero padded)
+export const formatSBVTime = (totalSeconds: number): string => {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  const pad = (num: number, size: number) => num.toString().padStart(size, '0');
+
+  return `${hours}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(milliseconds, 3)}`;
+};
+
+export const parseSBV = (content: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').trim().split(/\n\s*\n/);
+
+  blocks.forEach((block) => {
+    const lines = block.split('\n');
+    const match = lines[0].trim().match(TIMING_REGEX);
+    if (!match) return;
+
+    const text = lines.slice(1).join('\n').trim();
+    if (!text) return;
+
+    cues.push({
+      id: createCueId(),
+      startTime: parseSBVTime(match[1]),
+      endTime: parseSBVTime(match[2]),
+      text,
+    });
+  });
+
+  return cues;
+};
+
+// YouTube treats a blank line as the end of a caption, so blank lines inside the text are dropped
+export const generateSBV = (cues: SubtitleCue[]): string => {
+  return cues
+    .map((cue) => {
+      const text = cue.text.split('\n').filter(line => line.trim()).join('\n');
+      return `${formatSBVTime(cue.startTime)},${formatSBVTime(cue.endTime)}\n${text}\n`;
+    })
+    .join('\n');
+};
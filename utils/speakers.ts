@@ -0,0 +1,52 @@
+import { SubtitleCue, SubtitleStyle } from '../types';
+
+// Readable on dark video and distinct from each other; assigned in order of first appearance
+export const SPEAKER_PALETTE = ['#ffffff', '#fde047', '#67e8f9', '#86efac', '#f9a8d4', '#fdba74', '#c4b5fd', '#fca5a5'];
+
+// Helper to list speaker names in the order they first speak
+export const listSpeakers = (cues: SubtitleCue[]): string[] => {
+  const seen = new Set<string>();
+  cues.forEach((cue) => {
+    if (cue.speaker) seen.add(cue.speaker);
+  });
+  return Array.from(seen);
+};
+
+// Colour for every speaker: the user's choice from the style, otherwise the next palette entry
+export const resolveSpeakerColors = (cues: SubtitleCue[], style: SubtitleStyle): Record<string, string> => {
+  const colors: Record<string, string> = {};
+  listSpeakers(cues).forEach((speaker, index) => {
+    colors[speaker] = style.speakerColors?.[speaker] || SPEAKER_PALETTE[index % SPEAKER_PALETTE.length];
+  });
+  return colors;
+};
+
+// Text colour to draw a cue with
+export const getCueColor = (cue: SubtitleCue, style: SubtitleStyle, speakerColors: Record<string, string>): string =>
+  (cue.speaker && speakerColors[cue.speaker]) || style.color;
+
+// Helper to rename a speaker on every cue. Renaming onto an existing name merges the two speakers.
+export const renameSpeaker = (cues: SubtitleCue[], from: string, to: string): SubtitleCue[] => {
+  const name = to.trim();
+  return cues.map((cue) => {
+    if (cue.speaker !== from) return cue;
+    const { speaker, ...rest } = cue;
+    return name ? { ...rest, speaker: name } : rest;
+  });
+};
+
+// Helper to carry a speaker's colour over to its new name. All current colours are pinned, so the
+// palette order shifting after a rename or merge doesn't recolour anyone else.
+export const renameSpeakerColor = (
+  style: SubtitleStyle,
+  resolved: Record<string, string>,
+  from: string,
+  to: string
+): SubtitleStyle => {
+  const { [from]: color, ...others } = resolved;
+  const name = to.trim();
+  return {
+    ...style,
+    speakerColors: name ? { ...others, [name]: others[name] || color } : others,
+  };
+};
@@ -1,4 +1,8 @@
-import { SubtitleCue } from '../types';
+import { SubtitleCue, ParseDiagnostic, ParseReport } from '../types';
+
+// "5" after the separator means 500ms, not 5ms
+const parseFraction = (fraction: string | undefined): number =>
+  parseInt((fraction || '0').padEnd(3, '0').slice(0, 3), 10);
 
 // Helper to convert SRT time string (00:00:00,000) or VTT (00:00:00.000) to seconds
 export const parseSRTTime = (timeString: string): number => {
@@ -19,12 +23,12 @@ export const parseSRTTime = (timeString: string): number => {
     minutes = parseInt(parts[1], 10);
     const secondsParts = parts[2].split('.');
     seconds = parseInt(secondsParts[0], 10);
-    milliseconds = parseInt(secondsParts[1] || '0', 10);
+    milliseconds = parseFraction(secondsParts[1]);
   } else if (parts.length === 2) {
     minutes = parseInt(parts[0], 10);
     const secondsParts = parts[1].split('.');
     seconds = parseInt(secondsParts[0], 10);
-    milliseconds = parseInt(secondsParts[1] || '0', 10);
+    milliseconds = parseFraction(secondsParts[1]);
   }
 
   return hours * 3600 + minutes * 60 + seconds + milliseconds / 1000;
@@ -32,67 +36,183 @@ export const parseSRTTime = (timeString: string): number => {
 
 // Helper to convert seconds to SRT time string
 export const formatSRTTime = (totalSeconds: number): string => {
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = Math.floor(totalSeconds % 60);
-  const milliseconds = Math.round((totalSeconds % 1) * 1000);
+  // Round once on the total so 1.9996s becomes 00:00:02,000 rather than 00:00:01,1000
+  const totalMs = Math.max(0, Math.round((totalSeconds || 0) * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
 
   const pad = (num: number, size: number) => num.toString().padStart(size, '0');
 
   return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)},${pad(milliseconds, 3)}`;
 };
 
-export const parseSRT = (srtContent: string): SubtitleCue[] => {
+// Random short id for cues created by the parsers
+export const createCueId = (): string => Math.random().toString(36).substr(2, 9);
+
+const TIMESTAMP_REGEX = /^(?:\d+:)?\d{1,2}:\d{1,2}(?:[,.]\d{1,3})?$/;
+
+// Strict variant of parseSRTTime: null instead of 0 when the timestamp is malformed
+export const tryParseSRTTime = (timeString: string): number | null => {
+  const value = (timeString || '').trim();
+  if (!TIMESTAMP_REGEX.test(value)) return null;
+  return parseSRTTime(value);
+};
+
+interface RawBlock {
+  line: number; // 1-based line number of the block's first line
+  lines: string[];
+}
+
+// Split on blank lines, remembering where each block starts. Also splits blocks that run
+// into the next cue without a blank line (a timing line preceded by a numeric index).
+const splitBlocks = (lines: string[], diagnostics: ParseDiagnostic[]): RawBlock[] => {
+  const blocks: RawBlock[] = [];
+  let current: RawBlock | null = null;
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '') {
+      current = null;
+      return;
+    }
+
+    const startsNewCue =
+      current !== null &&
+      line.includes('-->') &&
+      current.lines.some(l => l.includes('-->'));
+
+    if (startsNewCue && current) {
+      const block: RawBlock = current;
+      const carriedIndex = /^\d+$/.test(block.lines[block.lines.length - 1].trim()) ? [block.lines.pop()!] : [];
+      diagnostics.push({
+        line: i + 1 - carriedIndex.length,
+        severity: 'warning',
+        message: 'Missing blank line between cues.',
+      });
+      current = { line: i + 1 - carriedIndex.length, lines: [...carriedIndex, line] };
+      blocks.push(current);
+      return;
+    }
+
+    if (!current) {
+      current = { line: i + 1, lines: [] };
+      blocks.push(current);
+    }
+    current.lines.push(line);
+  });
+
+  return blocks;
+};
+
+// Parses SRT (and SRT-like VTT) content, reporting every block it had to skip or repair
+export const parseSRTWithDiagnostics = (srtContent: string): ParseReport => {
   const cues: SubtitleCue[] = [];
-  const blocks = srtContent.trim().split(/\n\s*\n/);
+  const diagnostics: ParseDiagnostic[] = [];
+
+  // Normalize BOM and Windows/old Mac line endings before splitting
+  const lines = srtContent.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const blocks = splitBlocks(lines, diagnostics);
 
   blocks.forEach((block) => {
     // Skip WEBVTT header block
-    if (block.trim() === 'WEBVTT' || block.startsWith('WEBVTT')) return;
-
-    const lines = block.split('\n');
-    if (lines.length >= 2) {
-      // Logic to identify the timing line
-      // Standard SRT: Index -> Time -> Text
-      // VTT/Some SRT: Time -> Text
-      
-      let timeLineIndex = -1;
-      
-      for(let i=0; i<lines.length; i++) {
-          if(lines[i].includes('-->')) {
-              timeLineIndex = i;
-              break;
-          }
-      }
-      
-      if (timeLineIndex !== -1) {
-        const timeLine = lines[timeLineIndex];
-        const [startStr, endStr] = timeLine.split(' --> ');
-        
-        if (startStr && endStr) {
-          const textLines = lines.slice(timeLineIndex + 1);
-          // Remove optional VTT styling tags like <c.color> or <b>
-          const rawText = textLines.join('\n').trim();
-          const cleanText = rawText.replace(/<[^>]*>/g, '');
-
-          cues.push({
-            id: Math.random().toString(36).substr(2, 9),
-            startTime: parseSRTTime(startStr.trim()),
-            endTime: parseSRTTime(endStr.trim().split(' ')[0]), // Remove VTT alignment settings if present
-            text: cleanText,
-          });
-        }
-      }
+    if (block.line === 1 && block.lines[0].startsWith('WEBVTT')) return;
+
+    // Logic to identify the timing line
+    // Standard SRT: Index -> Time -> Text
+    // VTT/Some SRT: Time -> Text
+    const timeLineIndex = block.lines.findIndex(line => line.includes('-->'));
+    if (timeLineIndex === -1) {
+      diagnostics.push({
+        line: block.line,
+        severity: 'error',
+        message: `Unparseable block skipped (no "-->" timing line): "${block.lines[0].trim().slice(0, 40)}"`,
+      });
+      return;
+    }
+
+    const timeLineNumber = block.line + timeLineIndex;
+    const preamble = block.lines.slice(0, timeLineIndex);
+    if (preamble.length > 1 || (preamble.length === 1 && !/^\d+$/.test(preamble[0].trim()))) {
+      diagnostics.push({
+        line: block.line,
+        severity: 'warning',
+        message: 'Unexpected text before the timing line was ignored.',
+      });
     }
+
+    const [startStr, endStr] = block.lines[timeLineIndex].split('-->');
+    // Remove VTT alignment settings if present
+    const start = tryParseSRTTime(startStr);
+    const end = tryParseSRTTime((endStr || '').trim().split(/\s+/)[0]);
+
+    if (start === null || end === null) {
+      diagnostics.push({
+        line: timeLineNumber,
+        severity: 'error',
+        message: `Invalid timestamp "${block.lines[timeLineIndex].trim()}", cue skipped.`,
+      });
+      return;
+    }
+
+    if (end < start) {
+      diagnostics.push({
+        line: timeLineNumber,
+        severity: 'error',
+        message: `End time is before start time (${startStr.trim()} --> ${endStr.trim()}), cue skipped.`,
+      });
+      return;
+    }
+
+    // Remove optional VTT styling tags like <c.color> or <b>
+    const rawText = block.lines.slice(timeLineIndex + 1).join('\n').trim();
+    const cleanText = rawText.replace(/<[^>]*>/g, '');
+
+    if (!cleanText) {
+      diagnostics.push({
+        line: timeLineNumber,
+        severity: 'warning',
+        message: 'Cue has no text, skipped.',
+      });
+      return;
+    }
+
+    if (end === start) {
+      diagnostics.push({
+        line: timeLineNumber,
+        severity: 'warning',
+        message: 'Cue has zero duration.',
+      });
+    }
+
+    const previous = cues[cues.length - 1];
+    if (previous && start < previous.endTime) {
+      diagnostics.push({
+        line: timeLineNumber,
+        severity: 'warning',
+        message: 'Cue overlaps the previous cue.',
+      });
+    }
+
+    cues.push({
+      id: createCueId(),
+      startTime: start,
+      endTime: end,
+      text: cleanText,
+    });
   });
 
-  return cues;
+  return { cues, diagnostics: diagnostics.sort((a, b) => a.line - b.line) };
 };
 
-export const generateSRT = (cues: SubtitleCue[]): string => {
+export const parseSRT = (srtContent: string): SubtitleCue[] => parseSRTWithDiagnostics(srtContent).cues;
+
+// Speakers are written as a "NAME: " prefix, the common SRT convention
+export const generateSRT = (cues: SubtitleCue[], includeSpeakers: boolean = true): string => {
   return cues
     .map((cue, index) => {
-      return `${index + 1}\n${formatSRTTime(cue.startTime)} --> ${formatSRTTime(cue.endTime)}\n${cue.text}\n`;
+      const text = includeSpeakers && cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+      return `${index + 1}\n${formatSRTTime(cue.startTime)} --> ${formatSRTTime(cue.endTime)}\n${text}\n`;
     })
     .join('\n');
 };
@@ -0,0 +1,24 @@
+// Font sizes in SubtitleStyle are authored against a ~600px tall preview
+export const REFERENCE_HEIGHT = 600;
+
+// Karaoke highlight used until the user picks one
+export const DEFAULT_HIGHLIGHT_COLOR = '#facc15';
+
+export type TextShadowKind = 'none' | 'drop' | 'outline' | 'glow';
+
+// Values offered by the Shadow / Outline select in StyleControls
+export const TEXT_SHADOW_PRESETS: Record<TextShadowKind, string> = {
+  none: 'none',
+  drop: '2px 2px 4px rgba(0,0,0,0.8)',
+  outline: '-1px -1px 0 #000, 1px -1px 0 #000, -1px 1px 0 #000, 1px 1px 0 #000',
+  glow: '0 0 5px rgba(0,0,0,1)',
+};
+
+// Helper to classify a CSS text-shadow into one of the presets, for formats that only know outline/shadow
+export const getTextShadowKind = (textShadow: string): TextShadowKind => {
+  const value = (textShadow || '').trim();
+  if (!value || value === 'none') return 'none';
+  if (value.includes('-1px -1px')) return 'outline';
+  if (/^0(px)? 0(px)? /.test(value)) return 'glow';
+  return 'drop';
+};
@@ -0,0 +1,292 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleCue, SubtitleStyle } from '../types';
+import { SubtitleBlock, createSubtitleRenderer, drawSubtitleBlock, parseTextShadow } from './subtitleRenderer';
+import { DEFAULT_HIGHLIGHT_COLOR, TEXT_SHADOW_PRESETS } from './stylePresets';
+
+// Recorded output of the renderer: every fill with the canvas state it was drawn with. Compared against
+// the stored snapshots, so any change to what ends up on screen or in the burned video shows up here.
+interface DrawCall {
+  op: 'fillText' | 'fill';
+  args: (string | number)[];
+  font: string;
+  fillStyle: string;
+  globalAlpha: number;
+  textAlign: string;
+  textBaseline: string;
+  shadow: string; // "color x y blur", empty when no shadow is drawn
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Helper to build a stand-in 2D context that records draws. Text is measured as half the font size per
+// character, so wrapping and word positions come out the same on every machine.
+const createRecordingContext = () => {
+  const calls: DrawCall[] = [];
+  const initial = {
+    font: '10px sans-serif',
+    fillStyle: '#000000',
+    globalAlpha: 1,
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    shadowColor: 'transparent',
+    shadowBlur: 0,
+    shadowOffsetX: 0,
+    shadowOffsetY: 0,
+  };
+  const stack: (typeof initial)[] = [];
+  let path: (string | number)[] = [];
+
+  const ctx = {
+    ...initial,
+    save() {
+      const { font, fillStyle, globalAlpha, textAlign, textBaseline, shadowColor, shadowBlur, shadowOffsetX, shadowOffsetY } = ctx;
+      stack.push({ font, fillStyle, globalAlpha, textAlign, textBaseline, shadowColor, shadowBlur, shadowOffsetX, shadowOffsetY });
+    },
+    restore() {
+      Object.assign(ctx, stack.pop());
+    },
+    measureText(text: string) {
+      const fontSize = parseFloat(ctx.font.match(/([\d.]+)px/)![1]);
+      return { width: text.length * fontSize * 0.5 };
+    },
+    beginPath() {
+      path = [];
+    },
+    roundRect(x: number, y: number, w: number, h: number, r: number) {
+      path.push(...[x, y, w, h, r].map(round));
+    },
+    fill() {
+      record('fill', path);
+    },
+    fillText(text: string, x: number, y: number) {
+      record('fillText', [text, round(x), round(y)]);
+    },
+  };
+
+  const record = (op: DrawCall['op'], args: (string | number)[]) => {
+    const hasShadow = ctx.shadowColor !== 'transparent';
+    calls.push({
+      op,
+      args,
+      font: ctx.font,
+      fillStyle: ctx.fillStyle,
+      globalAlpha: ctx.globalAlpha,
+      textAlign: ctx.textAlign,
+      textBaseline: ctx.textBaseline,
+      shadow: hasShadow
+        ? `${ctx.shadowColor} ${round(ctx.shadowOffsetX)} ${round(ctx.shadowOffsetY)} ${round(ctx.shadowBlur)}`
+        : '',
+    });
+  };
+
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, calls, state: () => ctx };
+};
+
+const STYLE: SubtitleStyle = {
+  fontSize: 24,
+  color: '#ffffff',
+  backgroundColor: 'rgba(0,0,0,0.5)',
+  fontFamily: 'Inter, sans-serif',
+  textShadow: 'none',
+  position: 10,
+  opacity: 1,
+};
+
+const block = (text: string, overrides: Partial<SubtitleBlock> = {}, style: Partial<SubtitleStyle> = {}): SubtitleBlock => ({
+  text,
+  style: { ...STYLE, ...style },
+  color: STYLE.color,
+  activeWord: -1,
+  ...overrides,
+});
+
+const cue = (id: string, startTime: number, endTime: number, text: string, extra: Partial<SubtitleCue> = {}): SubtitleCue => ({
+  id,
+  startTime,
+  endTime,
+  text,
+  ...extra,
+});
+
+const textCalls = (calls: DrawCall[]) => calls.filter(call => call.op === 'fillText');
+
+describe('parseTextShadow', () => {
+  it('reads every preset into its layers', () => {
+    expect(parseTextShadow(TEXT_SHADOW_PRESETS.none)).toEqual([]);
+    expect(parseTextShadow(TEXT_SHADOW_PRESETS.drop)).toEqual([{ x: 2, y: 2, blur: 4, color: 'rgba(0,0,0,0.8)' }]);
+    expect(parseTextShadow(TEXT_SHADOW_PRESETS.outline)).toEqual([
+      { x: -1, y: -1, blur: 0, color: '#000' },
+      { x: 1, y: -1, blur: 0, color: '#000' },
+      { x: -1, y: 1, blur: 0, color: '#000' },
+      { x: 1, y: 1, blur: 0, color: '#000' },
+    ]);
+    expect(parseTextShadow(TEXT_SHADOW_PRESETS.glow)).toEqual([{ x: 0, y: 0, blur: 5, color: 'rgba(0,0,0,1)' }]);
+  });
+
+  it('takes the colour before the lengths and leaves it unset when missing', () => {
+    expect(parseTextShadow('red 1px 2px')).toEqual([{ x: 1, y: 2, blur: 0, color: 'red' }]);
+    expect(parseTextShadow('3px 3px')).toEqual([{ x: 3, y: 3, blur: 0 }]);
+  });
+});
+
+describe('drawSubtitleBlock', () => {
+  it('draws a boxed single line', () => {
+    const { ctx, calls } = createRecordingContext();
+    const next = drawSubtitleBlock(ctx, block('Hello world'), 1000, 540, 1);
+    expect(next).toBe(540 - (24 * 1.25 + 8) - 4);
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('paints every shadow layer under the text, last layer first', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawSubtitleBlock(ctx, block('Outlined', {}, { textShadow: TEXT_SHADOW_PRESETS.outline, backgroundColor: 'transparent' }), 1000, 540, 1);
+    expect(calls.map(call => call.shadow)).toEqual([
+      '#000 10001 1 0',
+      '#000 9999 1 0',
+      '#000 10001 -1 0',
+      '#000 9999 -1 0',
+      '',
+    ]);
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('uses the text colour for shadow layers without one', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawSubtitleBlock(ctx, block('Tinted', { color: '#67e8f9' }, { textShadow: '0 0 6px', backgroundColor: 'transparent' }), 1000, 540, 1);
+    expect(calls[0].shadow).toBe('#67e8f9 10000 0 6');
+  });
+
+  it('applies the opacity to the box, the shadows and the text, then restores it', () => {
+    const { ctx, calls, state } = createRecordingContext();
+    drawSubtitleBlock(ctx, block('Half', {}, { opacity: 0.5, textShadow: TEXT_SHADOW_PRESETS.drop }), 1000, 540, 1);
+    expect(calls.map(call => call.globalAlpha)).toEqual([0.5, 0.5, 0.5]);
+    expect(state().globalAlpha).toBe(1);
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('scales fonts, padding, shadows and the stacking gap with the frame', () => {
+    const small = createRecordingContext();
+    const large = createRecordingContext();
+    const style = { textShadow: TEXT_SHADOW_PRESETS.drop };
+    const nextSmall = drawSubtitleBlock(small.ctx, block('Scaled text', {}, style), 1000, 540, 1);
+    const nextLarge = drawSubtitleBlock(large.ctx, block('Scaled text', {}, style), 2000, 1080, 2);
+
+    expect(nextLarge).toBe(nextSmall * 2);
+    expect(large.calls.map(call => call.font)).toEqual(small.calls.map(() => '600 48px Inter, sans-serif'));
+    // Shadow passes are drawn a fixed distance off the canvas, so only the box and the text itself scale exactly
+    const onCanvas = (calls: DrawCall[]) => calls.filter(call => !call.shadow);
+    onCanvas(large.calls).forEach((call, i) => {
+      expect(call.args.map(arg => (typeof arg === 'number' ? arg / 2 : arg))).toEqual(onCanvas(small.calls)[i].args);
+    });
+    expect(large.calls[1].shadow).toBe('rgba(0,0,0,0.8) 10004 4 8');
+    expect(large.calls).toMatchSnapshot();
+  });
+
+  it('wraps long text at 80% of the frame width and keeps explicit line breaks', () => {
+    const { ctx, calls } = createRecordingContext();
+    // 12px per character: 33 characters fit in 400px
+    drawSubtitleBlock(ctx, block('The quick brown fox jumps over the lazy dog\nand keeps running'), 500, 400, 1);
+    expect(textCalls(calls).map(call => call.args[0])).toEqual([
+      'The quick brown fox jumps over',
+      'the lazy dog',
+      'and keeps running',
+    ]);
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('draws the karaoke line word by word with the active word highlighted', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawSubtitleBlock(ctx, block('one two three', { activeWord: 1 }, { backgroundColor: 'transparent' }), 1000, 540, 1);
+    const words = textCalls(calls);
+    expect(words.map(call => [call.args[0], call.fillStyle, call.textAlign])).toEqual([
+      ['one', '#ffffff', 'left'],
+      ['two', DEFAULT_HIGHLIGHT_COLOR, 'left'],
+      ['three', '#ffffff', 'left'],
+    ]);
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('finds the highlighted word on a later wrapped line', () => {
+    const { ctx, calls } = createRecordingContext();
+    drawSubtitleBlock(
+      ctx,
+      block('The quick brown fox jumps over the lazy dog', { activeWord: 7 }, { backgroundColor: 'transparent', highlightColor: '#ff0000' }),
+      500,
+      400,
+      1
+    );
+    const texts = textCalls(calls);
+    expect(texts[0].args[0]).toBe('The quick brown fox jumps over');
+    expect(texts.filter(call => call.fillStyle === '#ff0000').map(call => call.args[0])).toEqual(['lazy']);
+    expect(calls).toMatchSnapshot();
+  });
+});
+
+describe('createSubtitleRenderer', () => {
+  const main = [
+    cue('a', 0, 2, 'First line', { speaker: 'Ana' }),
+    cue('b', 3, 5, 'Karaoke line here', {
+      words: [
+        { text: 'Karaoke', start: 3, end: 3.5 },
+        { text: 'line', start: 3.5, end: 4 },
+        { text: 'here', start: 4, end: 5 },
+      ],
+    }),
+  ];
+  const secondary = [
+    cue('a', 0, 2, 'Primera línea'),
+    cue('c', 6, 7, 'Solo la segunda'),
+  ];
+  const secondaryStyle: SubtitleStyle = { ...STYLE, fontSize: 20, color: '#fde047' };
+
+  it('draws nothing between cues', () => {
+    const { ctx, calls } = createRecordingContext();
+    createSubtitleRenderer(main, STYLE)(ctx, 1280, 720, 2.5);
+    expect(calls).toEqual([]);
+  });
+
+  it('anchors the main track at its position and scales with the frame height', () => {
+    const { ctx, calls } = createRecordingContext();
+    createSubtitleRenderer(main, STYLE)(ctx, 1280, 720, 1);
+    // 10% from the bottom of 720 px, with fonts scaled by 720 / 600
+    const [, boxY, , boxHeight] = calls[0].args as number[];
+    expect(boxY + boxHeight).toBeCloseTo(648);
+    expect(textCalls(calls)[0].font).toBe(`600 ${24 * (720 / 600)}px Inter, sans-serif`);
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('stacks the secondary track above the main one', () => {
+    const { ctx, calls } = createRecordingContext();
+    createSubtitleRenderer(main, STYLE, { cues: secondary, style: secondaryStyle })(ctx, 1280, 720, 1);
+    const [mainText, secondText] = textCalls(calls);
+    expect([mainText.args[0], secondText.args[0]]).toEqual(['First line', 'Primera línea']);
+    expect(secondText.args[2]).toBeLessThan(mainText.args[2] as number);
+    expect(secondText.fillStyle).toBe('#fde047');
+    expect(calls).toMatchSnapshot();
+  });
+
+  it('puts the secondary track in the main position when the main one is silent', () => {
+    const alone = createRecordingContext();
+    const stacked = createRecordingContext();
+    createSubtitleRenderer(main, STYLE, { cues: secondary, style: secondaryStyle })(alone.ctx, 1280, 720, 6.5);
+    createSubtitleRenderer(secondary, secondaryStyle)(stacked.ctx, 1280, 720, 6.5);
+    expect(alone.calls).toEqual(stacked.calls);
+    expect(alone.calls).toMatchSnapshot();
+  });
+
+  it('highlights the word being spoken only when karaoke is on', () => {
+    const plain = createRecordingContext();
+    const karaoke = createRecordingContext();
+    createSubtitleRenderer(main, STYLE)(plain.ctx, 1280, 720, 3.7);
+    createSubtitleRenderer(main, { ...STYLE, karaoke: true })(karaoke.ctx, 1280, 720, 3.7);
+    expect(textCalls(plain.calls).map(call => call.args[0])).toEqual(['Karaoke line here']);
+    expect(textCalls(karaoke.calls).filter(call => call.fillStyle === DEFAULT_HIGHLIGHT_COLOR).map(call => call.args[0])).toEqual(['line']);
+    expect(karaoke.calls).toMatchSnapshot();
+  });
+
+  it('honours an explicit scale over the frame height', () => {
+    const { ctx, calls } = createRecordingContext();
+    createSubtitleRenderer(main, STYLE)(ctx, 1280, 720, 1, 2);
+    expect(textCalls(calls)[0].font).toBe('600 48px Inter, sans-serif');
+  });
+});
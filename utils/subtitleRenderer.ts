@@ -0,0 +1,200 @@
+import { SubtitleCue, SubtitleStyle } from '../types';
+import { resolveSpeakerColors, getCueColor } from './speakers';
+import { tokenizeWords, getActiveWordIndex } from './wordTimings';
+import { DEFAULT_HIGHLIGHT_COLOR, REFERENCE_HEIGHT } from './stylePresets';
+
+// The one place subtitles are drawn. The player overlay, the style preview and both burn-in paths all
+// render through here, so what is approved on screen is what ends up in the video.
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Second track drawn above the main one in dual-subtitle mode
+export interface SecondarySubtitles {
+  cues: SubtitleCue[];
+  style: SubtitleStyle;
+}
+
+// One cue's worth of text to draw
+export interface SubtitleBlock {
+  text: string;
+  style: SubtitleStyle;
+  color: string; // per-speaker override of style.color
+  activeWord: number; // index of the word to highlight, -1 for none
+}
+
+// One layer of a CSS text-shadow, in reference pixels
+export interface TextShadowLayer {
+  x: number;
+  y: number;
+  blur: number;
+  color?: string; // CSS default: the text colour
+}
+
+// Measurements at the reference height, scaled with the frame
+const LINE_HEIGHT = 1.25;
+const PADDING_X = 8;
+const PADDING_Y = 4;
+const BOX_RADIUS = 4;
+const STACK_GAP = 4; // between the main and the second track
+const FONT_WEIGHT = 600;
+const MAX_WIDTH = 0.8; // share of the frame width text may use before wrapping
+// Shadow-only passes draw the text this far off the canvas and offset the shadow back into place
+const OFFSCREEN = 10000;
+
+// Helper to read a CSS text-shadow (e.g. "2px 2px 4px rgba(0,0,0,0.8)") into its layers, first on top
+export const parseTextShadow = (textShadow: string): TextShadowLayer[] => {
+  const value = (textShadow || '').trim();
+  if (!value || value === 'none') return [];
+  return value.split(/,(?![^(]*\))/).map((part) => {
+    const color = part.match(/rgba?\([^)]*\)|hsla?\([^)]*\)|#[0-9a-f]{3,8}\b|\b[a-z]+\b/i)?.[0];
+    const lengths = (color ? part.replace(color, '') : part).trim().split(/\s+/).map(parseFloat).filter(n => !isNaN(n));
+    return { x: lengths[0] || 0, y: lengths[1] || 0, blur: lengths[2] || 0, ...(color && { color }) };
+  });
+};
+
+function wrapText(ctx: Canvas2D, text: string, maxWidth: number): string[] {
+  const lines = [];
+  const paragraphs = text.split('\n');
+
+  for (const paragraph of paragraphs) {
+    const words = paragraph.split(' ');
+    let currentLine = words[0];
+
+    for (let i = 1; i < words.length; i++) {
+      const word = words[i];
+      const width = ctx.measureText(currentLine + " " + word).width;
+      if (width < maxWidth) {
+        currentLine += " " + word;
+      } else {
+        lines.push(currentLine);
+        currentLine = word;
+      }
+    }
+    lines.push(currentLine);
+  }
+  return lines;
+}
+
+// Helper to set the block's font and wrap its text; `scale` is frame pixels per reference pixel
+const layoutBlock = (ctx: Canvas2D, block: SubtitleBlock, width: number, scale: number) => {
+  const fontSize = block.style.fontSize * scale;
+  // The whole family list, so a worker canvas without the page's web fonts still gets the generic fallback
+  ctx.font = `${FONT_WEIGHT} ${fontSize}px ${block.style.fontFamily}`;
+  const lines = wrapText(ctx, block.text, width * MAX_WIDTH);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  return { lines, lineHeight, height: lines.length * lineHeight + 2 * PADDING_Y * scale };
+};
+
+// Height of a block including its box, e.g. to centre it
+export const measureSubtitleBlock = (ctx: Canvas2D, block: SubtitleBlock, width: number, scale: number): number =>
+  layoutBlock(ctx, block, width, scale).height;
+
+// Helper to draw text with its shadows underneath, like CSS: every shadow layer is painted on its own
+// (text off-canvas, shadow offset back), then the text once on top
+const drawText = (ctx: Canvas2D, text: string, x: number, y: number, color: string, shadows: TextShadowLayer[], scale: number) => {
+  for (let i = shadows.length - 1; i >= 0; i--) {
+    const shadow = shadows[i];
+    ctx.shadowColor = shadow.color || color;
+    ctx.shadowBlur = shadow.blur * scale;
+    ctx.shadowOffsetX = shadow.x * scale + OFFSCREEN;
+    ctx.shadowOffsetY = shadow.y * scale;
+    ctx.fillStyle = color;
+    ctx.fillText(text, x - OFFSCREEN, y);
+  }
+  ctx.shadowColor = 'transparent';
+  ctx.fillStyle = color;
+  ctx.fillText(text, x, y);
+};
+
+// Draws one block centred horizontally with the bottom of its box at `anchorY`. Returns where a block
+// stacked on top of it should end.
+export const drawSubtitleBlock = (
+  ctx: Canvas2D,
+  block: SubtitleBlock,
+  width: number,
+  anchorY: number,
+  scale: number
+): number => {
+  const { style } = block;
+  const { lines, lineHeight, height } = layoutBlock(ctx, block, width, scale);
+  const shadows = parseTextShadow(style.textShadow);
+  const x = width / 2;
+
+  ctx.save();
+  ctx.globalAlpha = style.opacity ?? 1;
+  ctx.textBaseline = 'bottom';
+
+  if (style.backgroundColor && style.backgroundColor !== 'transparent') {
+    const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+    const boxWidth = textWidth + 2 * PADDING_X * scale;
+    ctx.fillStyle = style.backgroundColor;
+    ctx.beginPath();
+    ctx.roundRect(x - boxWidth / 2, anchorY - height, boxWidth, height, BOX_RADIUS * scale);
+    ctx.fill();
+  }
+
+  // Index of each line's first word, so the highlighted word can be found after wrapping
+  let wordOffset = 0;
+  const firstWords = lines.map((line) => {
+    const first = wordOffset;
+    wordOffset += tokenizeWords(line).length;
+    return first;
+  });
+  const highlightColor = style.highlightColor || DEFAULT_HIGHLIGHT_COLOR;
+  const lastLineBottom = anchorY - PADDING_Y * scale;
+
+  lines.forEach((line, index) => {
+    const lineY = lastLineBottom - (lines.length - 1 - index) * lineHeight;
+    const tokens = tokenizeWords(line);
+    const highlighted = block.activeWord - firstWords[index];
+
+    if (highlighted < 0 || highlighted >= tokens.length) {
+      ctx.textAlign = 'center';
+      drawText(ctx, line, x, lineY, block.color, shadows, scale);
+      return;
+    }
+
+    // Word by word so a single word can take the highlight colour
+    const spaceWidth = ctx.measureText(' ').width;
+    const widths = tokens.map(token => ctx.measureText(token).width);
+    const lineWidth = widths.reduce((sum, w) => sum + w, 0) + spaceWidth * (tokens.length - 1);
+    ctx.textAlign = 'left';
+    let cursor = x - lineWidth / 2;
+    tokens.forEach((token, i) => {
+      drawText(ctx, token, cursor, lineY, i === highlighted ? highlightColor : block.color, shadows, scale);
+      cursor += widths[i] + spaceWidth;
+    });
+  });
+
+  ctx.restore();
+  return anchorY - height - STACK_GAP * scale;
+};
+
+// Draws the subtitles showing at `time` over whatever is already on the canvas. Font sizes are authored
+// against the reference height, so by default everything scales with the frame height.
+export const createSubtitleRenderer = (cues: SubtitleCue[], style: SubtitleStyle, secondary?: SecondarySubtitles) => {
+  const speakerColors = resolveSpeakerColors(cues, style);
+  const secondaryColors = secondary ? resolveSpeakerColors(secondary.cues, secondary.style) : {};
+
+  const blockAt = (list: SubtitleCue[], blockStyle: SubtitleStyle, colors: Record<string, string>, time: number): SubtitleBlock | null => {
+    const cue = list.find(c => time >= c.startTime && time <= c.endTime);
+    if (!cue) return null;
+    return {
+      text: cue.text,
+      style: blockStyle,
+      color: getCueColor(cue, blockStyle, colors),
+      activeWord: blockStyle.karaoke && cue.words ? getActiveWordIndex(cue.words, time) : -1,
+    };
+  };
+
+  return (ctx: Canvas2D, width: number, height: number, time: number, scale: number = height / REFERENCE_HEIGHT) => {
+    // The secondary track stacks on top of the main one, or takes its place when the main one is silent
+    let anchorY = height * (1 - style.position / 100);
+
+    const main = blockAt(cues, style, speakerColors, time);
+    if (main) anchorY = drawSubtitleBlock(ctx, main, width, anchorY, scale);
+
+    const second = secondary && blockAt(secondary.cues, secondary.style, secondaryColors, time);
+    if (second) drawSubtitleBlock(ctx, second, width, anchorY, scale);
+  };
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleCue, SubtitleTrack } from '../types';
+import { updateTrackCues } from './tracks';
+
+const words = (start: number) => [
+  { text: 'uno', start, end: start + 0.5 },
+  { text: 'dos', start: start + 0.5, end: start + 1 },
+  { text: 'tres', start: start + 1, end: start + 2 },
+];
+
+const cue = (startTime: number, endTime: number, text: string, withWords = false): SubtitleCue => ({
+  id: 'a',
+  startTime,
+  endTime,
+  text,
+  ...(withWords && { words: words(startTime) }),
+});
+
+const tracks = (): SubtitleTrack[] => [
+  { id: 'src', name: 'Original', language: 'en', cues: [cue(10, 12, 'one two three')] },
+  { id: 'es', name: 'Spanish', language: 'es', timingSource: 'src', cues: [cue(10, 12, 'uno dos tres', true)] },
+];
+
+const spans = (tracks: SubtitleTrack[]) => tracks[1].cues[0].words!.map(word => [word.start, word.end]);
+
+describe('updateTrackCues', () => {
+  it('moves the words of linked cues along with a moved cue', () => {
+    const updated = updateTrackCues(tracks(), 'src', [cue(13, 15, 'one two three')]);
+    expect(updated[1].cues[0]).toMatchObject({ startTime: 13, endTime: 15 });
+    expect(spans(updated)).toEqual([[13, 13.5], [13.5, 14], [14, 15]]);
+  });
+
+  it('stretches the words of linked cues over a resized cue', () => {
+    const updated = updateTrackCues(tracks(), 'src', [cue(9, 13, 'one two three')]);
+    expect(spans(updated)).toEqual([[9, 10], [10, 11], [11, 13]]);
+  });
+
+  it('moves the words of linked cues only as far as a single edge pushes them', () => {
+    const extended = updateTrackCues(tracks(), 'src', [cue(8, 12, 'one two three')]);
+    expect(spans(extended)).toEqual([[10, 10.5], [10.5, 11], [11, 12]]);
+    const trimmed = updateTrackCues(tracks(), 'src', [cue(10, 11.2, 'one two three')]);
+    expect(spans(trimmed)).toEqual([[10, 10.5], [10.5, 11], [11, 11.2]]);
+  });
+});
@@ -0,0 +1,96 @@
+import { Project, SubtitleCue, SubtitleTrack } from '../types';
+import { createCueId } from './srtParser';
+import { syncCueWords } from './wordTimings';
+
+export const DEFAULT_TRACK_NAME = 'Original';
+
+export const createTrack = (name: string, language: string = '', cues: SubtitleCue[] = [], timingSource?: string): SubtitleTrack => ({
+  id: createCueId(),
+  name,
+  language,
+  cues,
+  ...(timingSource && { timingSource }),
+});
+
+// Tracks sharing timing form a group around one root track; timingSource always points at that root
+export const timingRoot = (track: SubtitleTrack): string => track.timingSource || track.id;
+
+export const updateTrack = (tracks: SubtitleTrack[], id: string, updates: Partial<SubtitleTrack>): SubtitleTrack[] =>
+  tracks.map(track => (track.id === id ? { ...track, ...updates } : track));
+
+// Helper to copy cue times from `source` onto the cues of `target` with the same id, moving or stretching
+// each target cue's words from its old times to the new ones. Cues only one side has (added, split or
+// merged since the tracks were linked) keep their own timing.
+const copyTiming = (source: SubtitleCue[], target: SubtitleCue[]): SubtitleCue[] => {
+  const times = new Map(source.map(cue => [cue.id, cue] as [string, SubtitleCue]));
+  let changed = false;
+  const synced = target.map((cue) => {
+    const match = times.get(cue.id);
+    if (!match || (match.startTime === cue.startTime && match.endTime === cue.endTime)) return cue;
+    changed = true;
+    return syncCueWords({ ...cue, startTime: match.startTime, endTime: match.endTime }, cue);
+  });
+  return changed ? synced : target;
+};
+
+// Replaces one track's cues and carries its timing over to every track in the same timing group
+export const updateTrackCues = (tracks: SubtitleTrack[], id: string, cues: SubtitleCue[]): SubtitleTrack[] => {
+  const edited = tracks.find(track => track.id === id);
+  if (!edited) return tracks;
+  const root = timingRoot(edited);
+  return tracks.map((track) => {
+    if (track.id === id) return { ...track, cues };
+    if (timingRoot(track) !== root) return track;
+    const synced = copyTiming(cues, track.cues);
+    return synced === track.cues ? track : { ...track, cues: synced };
+  });
+};
+
+// Links a track's timing to another track's group (taking that group's times), or makes it independent
+// when `sourceId` is null. Tracks that followed the linked track move with it.
+export const linkTrackTiming = (tracks: SubtitleTrack[], id: string, sourceId: string | null): SubtitleTrack[] => {
+  const source = tracks.find(track => track.id === sourceId);
+  const root = source ? timingRoot(source) : null;
+  if (root === id) return tracks;
+
+  const relinked = tracks.map((track): SubtitleTrack => {
+    if (track.id === id || (root && track.timingSource === id)) {
+      const { timingSource: _, ...rest } = track;
+      return root ? { ...rest, timingSource: root } : rest;
+    }
+    return track;
+  });
+  if (!root) return relinked;
+
+  const rootCues = relinked.find(track => track.id === root)!.cues;
+  return relinked.map(track => (track.timingSource === root ? { ...track, cues: copyTiming(rootCues, track.cues) } : track));
+};
+
+// Removes a track. If it was the root of a timing group, the next track in the group takes over.
+export const removeTrack = (tracks: SubtitleTrack[], id: string): SubtitleTrack[] => {
+  const remaining = tracks.filter(track => track.id !== id);
+  const heir = remaining.find(track => track.timingSource === id);
+  return remaining.map((track) => {
+    if (track.timingSource !== id) return track;
+    const { timingSource: _, ...rest } = track;
+    return track === heir ? rest : { ...rest, timingSource: heir!.id };
+  });
+};
+
+// Helper to label a track in menus, e.g. "Vietnamese (vi)"
+export const trackLabel = (track: SubtitleTrack): string =>
+  track.language ? `${track.name} (${track.language})` : track.name;
+
+// Helper to name an exported file after its track, e.g. subtitles.vi.srt
+export const trackFileName = (track: SubtitleTrack, extension: string): string =>
+  track.language ? `subtitles.${track.language}.${extension}` : `subtitles.${extension}`;
+
+// Tracks of a saved project. Projects saved before tracks existed hold a single `cues` list.
+export const projectTracks = (project: Project): { tracks: SubtitleTrack[]; activeTrackId: string } => {
+  if (Array.isArray(project.tracks) && project.tracks.length > 0) {
+    const active = project.tracks.find(track => track.id === project.activeTrackId) || project.tracks[0];
+    return { tracks: project.tracks, activeTrackId: active.id };
+  }
+  const track = { ...createTrack(DEFAULT_TRACK_NAME, '', project.cues || []), vttHeader: project.vttHeader || null };
+  return { tracks: [track], activeTrackId: track.id };
+};
@@ -0,0 +1,146 @@
+import { SubtitleCue } from '../types';
+import { roundTime } from './cueTiming';
+import { mapWordTimes } from './wordTimings';
+
+export interface TranscriptionChunk {
+  index: number;
+  start: number; // seconds, absolute
+  end: number; // seconds, absolute, includes the overlap into the next chunk
+}
+
+export interface ChunkResult {
+  chunk: TranscriptionChunk;
+  cues: SubtitleCue[]; // already shifted to absolute time
+}
+
+export const DEFAULT_CHUNK_LENGTH = 300;
+export const DEFAULT_CHUNK_OVERLAP = 5;
+
+// Helper to cut [0, duration] into consecutive chunks that each run `overlap` seconds into the next one,
+// so a sentence spoken across a boundary is heard whole by at least one chunk
+export const planChunks = (
+  duration: number,
+  chunkLength: number = DEFAULT_CHUNK_LENGTH,
+  overlap: number = DEFAULT_CHUNK_OVERLAP
+): TranscriptionChunk[] => {
+  // Unknown length: send everything as one open-ended chunk
+  if (!(duration > 0)) return [{ index: 0, start: 0, end: Infinity }];
+
+  const chunks: TranscriptionChunk[] = [];
+  for (let start = 0; start < duration; start += chunkLength) {
+    chunks.push({
+      index: chunks.length,
+      start,
+      end: Math.min(duration, start + chunkLength + overlap),
+    });
+  }
+
+  // Fold a tiny tail into the previous chunk instead of sending a few seconds on their own
+  const last = chunks[chunks.length - 1];
+  if (chunks.length > 1 && last.end - last.start < overlap * 2) {
+    chunks.pop();
+    chunks[chunks.length - 1].end = duration;
+  }
+  return chunks;
+};
+
+// Helper to move cues timed relative to a chunk back to absolute time, dropping anything outside the chunk
+export const toAbsoluteCues = (cues: SubtitleCue[], chunk: TranscriptionChunk): SubtitleCue[] => {
+  const length = chunk.end - chunk.start;
+  // Some responses already use absolute timestamps; a relative cue can't run past the chunk length
+  const isAbsolute = chunk.start > 0 && cues.some(c => c.endTime > length + 1);
+  const offset = isAbsolute ? 0 : chunk.start;
+  const shift = (time: number) => roundTime(time + offset);
+
+  return cues
+    .map(cue => ({
+      ...cue,
+      startTime: shift(cue.startTime),
+      endTime: shift(cue.endTime),
+      ...(cue.words && { words: mapWordTimes(cue.words, shift) }),
+    }))
+    .filter(cue => cue.endTime > chunk.start && cue.startTime < chunk.end);
+};
+
+const normalizeText = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const isSameLine = (a: SubtitleCue, b: SubtitleCue) => {
+  const textA = normalizeText(a.text);
+  const textB = normalizeText(b.text);
+  if (!textA || !textB) return false;
+  return textA === textB || textA.includes(textB) || textB.includes(textA);
+};
+
+// Helper to stitch per-chunk cues into one track. Each seam sits in the middle of the overlap:
+// a cue belongs to the chunk its midpoint falls in, and a repeat of the previous line is dropped.
+export const mergeChunkCues = (results: ChunkResult[]): SubtitleCue[] => {
+  const ordered = [...results].sort((a, b) => a.chunk.start - b.chunk.start);
+  const merged: SubtitleCue[] = [];
+
+  ordered.forEach(({ chunk, cues }, i) => {
+    const prev = ordered[i - 1];
+    const next = ordered[i + 1];
+    const from = prev ? (chunk.start + prev.chunk.end) / 2 : -Infinity;
+    const to = next ? (next.chunk.start + chunk.end) / 2 : Infinity;
+
+    [...cues]
+      .sort((a, b) => a.startTime - b.startTime)
+      .forEach((cue) => {
+        const mid = (cue.startTime + cue.endTime) / 2;
+        if (mid < from || mid >= to) return;
+
+        const last = merged[merged.length - 1];
+        if (last && cue.startTime < last.endTime && isSameLine(last, cue)) {
+          // Same sentence heard by both chunks: keep the longer wording and span
+          if (cue.text.length > last.text.length) {
+            last.text = cue.text;
+            last.words = cue.words;
+          }
+          last.endTime = Math.max(last.endTime, cue.endTime);
+          return;
+        }
+        merged.push({ ...cue });
+      });
+  });
+
+  return merged;
+};
+
+// Helper to run an async worker over items with at most `limit` in flight, keeping results in input order.
+// The first failure stops the run: no new items are started, and the signal handed to the workers aborts
+// so calls already in flight are cancelled too. The signal also follows the caller's `signal`.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number, signal: AbortSignal) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  const controller = new AbortController();
+  const cancel = () => controller.abort(signal?.reason);
+  if (signal?.aborted) cancel();
+  signal?.addEventListener('abort', cancel);
+  let nextIndex = 0;
+
+  const run = async () => {
+    while (nextIndex < items.length && !controller.signal.aborted) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index, controller.signal);
+      } catch (error) {
+        controller.abort(error);
+        throw error;
+      }
+    }
+  };
+
+  try {
+    // Rejects with the first failure; the workers it cancels fail after it
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+  // Cancelled by the caller between items: the results are incomplete
+  if (controller.signal.aborted) throw controller.signal.reason;
+  return results;
+};
@@ -0,0 +1,104 @@
+import { SubtitleCue } from '../types';
+import { mapWithConcurrency } from './transcriptionChunks';
+
+// Cues per request: small enough that the reply is never cut off, big enough to keep the context flowing
+export const DEFAULT_BATCH_SIZE = 40;
+// Neighbouring cues sent on each side of a batch so sentences that span a batch edge read naturally
+export const DEFAULT_CONTEXT_SIZE = 3;
+// First try plus retries for cues the model dropped or left empty
+export const MAX_TRANSLATION_ATTEMPTS = 3;
+const BATCH_CONCURRENCY = 2;
+
+// One cue as the model sees it; timings never leave the app
+export interface TranslationItem {
+  id: string;
+  text: string;
+  speaker?: string;
+}
+
+export interface TranslationBatch {
+  cues: TranslationItem[]; // to translate
+  before: TranslationItem[]; // context only
+  after: TranslationItem[]; // context only
+}
+
+export interface TranslatedText {
+  id: string;
+  text: string;
+}
+
+// Sends one batch to a model and returns whatever came back; checking it is up to translateInBatches.
+// The signal aborts when the job is cancelled or another batch has failed.
+export type BatchTranslator = (batch: TranslationBatch, signal: AbortSignal) => Promise<TranslatedText[]>;
+
+const toItem = (cue: SubtitleCue): TranslationItem => ({
+  id: cue.id,
+  text: cue.text,
+  ...(cue.speaker && { speaker: cue.speaker }),
+});
+
+// Helper to cut the cues into batches, each with a few neighbours on either side as context
+export const planTranslationBatches = (
+  cues: SubtitleCue[],
+  batchSize: number = DEFAULT_BATCH_SIZE,
+  contextSize: number = DEFAULT_CONTEXT_SIZE
+): TranslationBatch[] => {
+  const batches: TranslationBatch[] = [];
+  for (let start = 0; start < cues.length; start += batchSize) {
+    const end = Math.min(cues.length, start + batchSize);
+    batches.push({
+      cues: cues.slice(start, end).map(toItem),
+      before: cues.slice(Math.max(0, start - contextSize), start).map(toItem),
+      after: cues.slice(end, end + contextSize).map(toItem),
+    });
+  }
+  return batches;
+};
+
+// Helper to pick out the usable translations of a batch. Unknown ids, repeats and blank text are ignored,
+// so whatever is left in `missing` needs another try.
+export const checkTranslations = (
+  batch: TranslationBatch,
+  returned: TranslatedText[]
+): { translated: Map<string, string>; missing: TranslationItem[] } => {
+  const wanted = new Set(batch.cues.map(item => item.id));
+  const translated = new Map<string, string>();
+  returned.forEach(({ id, text }) => {
+    if (wanted.has(id) && !translated.has(id) && text.trim()) translated.set(id, text.trim());
+  });
+  return { translated, missing: batch.cues.filter(item => !translated.has(item.id)) };
+};
+
+// Translates every cue batch by batch. Timings, speakers and ids come from the source cues, so the
+// result always has the same cues in the same order; only the text changes.
+export const translateInBatches = async (
+  cues: SubtitleCue[],
+  translateBatch: BatchTranslator,
+  onProgress?: (msg: string) => void,
+  signal?: AbortSignal
+): Promise<SubtitleCue[]> => {
+  const batches = planTranslationBatches(cues);
+  const translated = new Map<string, string>();
+  let done = 0;
+
+  await mapWithConcurrency(batches, BATCH_CONCURRENCY, async (batch, _, batchSignal) => {
+    let pending = batch;
+    for (let attempt = 1; attempt <= MAX_TRANSLATION_ATTEMPTS && pending.cues.length > 0; attempt++) {
+      const result = checkTranslations(pending, await translateBatch(pending, batchSignal));
+      result.translated.forEach((text, id) => translated.set(id, text));
+      // Retry only what's missing, still with the batch's neighbours as context
+      pending = { ...pending, cues: result.missing };
+    }
+    if (pending.cues.length > 0) {
+      throw new Error(`${pending.cues.length} cue(s) came back untranslated after ${MAX_TRANSLATION_ATTEMPTS} attempts. Please try again.`);
+    }
+    done++;
+    onProgress?.(`Translated ${done} of ${batches.length} batches...`);
+  }, signal);
+
+  return cues.map((cue) => {
+    // Word timings belong to the source wording
+    const { words: _, ...rest } = cue;
+    return { ...rest, text: translated.get(cue.id)! };
+  });
+};
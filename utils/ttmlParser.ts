@@ -0,0 +1,326 @@
+import { SubtitleCue, SubtitleStyle } from '../types';
+import { createCueId } from './srtParser';
+import { parseCssColor, toCssColor, toHexAlphaColor, toHexColor, RGBA } from './colorUtils';
+import { REFERENCE_HEIGHT, TEXT_SHADOW_PRESETS, getTextShadowKind } from './stylePresets';
+
+export interface TTMLParseResult {
+  cues: SubtitleCue[];
+  // Style mapped from the styles and region the body/first paragraph use, null if none are declared
+  style: Partial<SubtitleStyle> | null;
+}
+
+const TTML_NS = 'http://www.w3.org/ns/ttml';
+const IMSC1_TEXT_PROFILE = 'http://www.w3.org/ns/ttml/profile/imsc1/text';
+// Default ttp:cellResolution is "32 15", so one cell is 1/15 of the video height
+const CELL_ROWS = 15;
+const DEFAULT_FRAME_RATE = 30;
+const DEFAULT_TICK_RATE = 1;
+
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  red: '#ff0000',
+  lime: '#00ff00',
+  green: '#008000',
+  blue: '#0000ff',
+  yellow: '#ffff00',
+  cyan: '#00ffff',
+  aqua: '#00ffff',
+  magenta: '#ff00ff',
+  fuchsia: '#ff00ff',
+  gray: '#808080',
+  silver: '#c0c0c0',
+};
+
+interface TimingParameters {
+  frameRate: number;
+  tickRate: number;
+}
+
+// Helper to convert seconds to a TTML clock time (00:00:00.000)
+export const formatTTMLTime = (totalSeconds: number): string => {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  const pad = (num: number, size: number) => num.toString().padStart(size, '0');
+
+  return `${pad(hours, 2)}:${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(milliseconds, 3)}`;
+};
+
+// Helper to convert a TTML clock time or offset time to seconds
+export const parseTTMLTime = (value: string, params: TimingParameters = { frameRate: DEFAULT_FRAME_RATE, tickRate: DEFAULT_TICK_RATE }): number => {
+  const time = value.trim();
+
+  const clock = time.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)(?::(\d+(?:\.\d+)?))?$/);
+  if (clock) {
+    const frames = clock[4] ? parseFloat(clock[4]) / params.frameRate : 0;
+    return parseInt(clock[1], 10) * 3600 + parseInt(clock[2], 10) * 60 + parseFloat(clock[3]) + frames;
+  }
+
+  const offset = time.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (offset) {
+    const amount = parseFloat(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 's': return amount;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / params.frameRate;
+      case 't': return amount / params.tickRate;
+    }
+  }
+
+  return 0;
+};
+
+// TTML rgba() takes its alpha as 0-255, unlike CSS
+const parseTTMLColor = (value: string | null): RGBA | null => {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+  if (NAMED_COLORS[color]) return parseCssColor(NAMED_COLORS[color]);
+
+  const rgba = color.match(/^rgba\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*\)$/);
+  if (rgba) {
+    return {
+      r: parseInt(rgba[1], 10),
+      g: parseInt(rgba[2], 10),
+      b: parseInt(rgba[3], 10),
+      a: Math.round((parseInt(rgba[4], 10) / 255) * 100) / 100,
+    };
+  }
+
+  return parseCssColor(color);
+};
+
+const escapeXML = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Attributes are looked up by local name so both TTML and legacy DFXP namespaces work
+const getAttr = (el: Element | null | undefined, localName: string): string | null => {
+  if (!el) return null;
+  for (const attr of Array.from(el.attributes)) {
+    if (attr.localName === localName) return attr.value;
+  }
+  return null;
+};
+
+const byLocalName = (root: Document | Element, localName: string): Element[] =>
+  Array.from(root.getElementsByTagNameNS('*', localName));
+
+// Text of a <p>: <br/> becomes a newline, <span> contents are kept, XML whitespace is collapsed
+const paragraphText = (node: Node): string => {
+  let text = '';
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      text += (child.textContent || '').replace(/\s+/g, ' ');
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const el = child as Element;
+      text += el.localName === 'br' ? '\n' : paragraphText(el);
+    }
+  });
+  return text;
+};
+
+// begin/end on a <p> are relative to the begin of its enclosing div/body
+const parentOffset = (el: Element, params: TimingParameters): number => {
+  let offset = 0;
+  let parent = el.parentElement;
+  while (parent && parent.localName !== 'tt') {
+    const begin = getAttr(parent, 'begin');
+    if (begin) offset += parseTTMLTime(begin, params);
+    parent = parent.parentElement;
+  }
+  return offset;
+};
+
+const parseFontSize = (value: string, rootHeight: number | null): number | null => {
+  const match = value.trim().split(/\s+/).pop()!.match(/^(\d+(?:\.\d+)?)(c|px|%)$/);
+  if (!match) return null;
+  const amount = parseFloat(match[1]);
+  const cellHeight = REFERENCE_HEIGHT / CELL_ROWS;
+  switch (match[2]) {
+    case 'c': return Math.round(amount * cellHeight);
+    case '%': return Math.round((amount / 100) * cellHeight);
+    case 'px': return Math.round(rootHeight ? amount * (REFERENCE_HEIGHT / rootHeight) : amount);
+  }
+  return null;
+};
+
+// Collect styling attributes from referenced <style> elements (and their own style chains) plus inline ones
+const collectStyling = (el: Element | null | undefined, styles: Record<string, Element>, into: Record<string, string>, depth = 0) => {
+  if (!el || depth > 8) return;
+  const refs = (getAttr(el, 'style') || '').split(/\s+/).filter(Boolean);
+  refs.forEach(ref => collectStyling(styles[ref], styles, into, depth + 1));
+  for (const attr of Array.from(el.attributes)) {
+    if (attr.namespaceURI && attr.namespaceURI.includes('styling')) into[attr.localName] = attr.value;
+  }
+};
+
+const mapTTMLStyle = (attrs: Record<string, string>, region: Element | null, rootHeight: number | null): Partial<SubtitleStyle> => {
+  const style: Partial<SubtitleStyle> = {};
+
+  if (attrs.fontFamily) {
+    const family = attrs.fontFamily.split(',')[0].replace(/['"]/g, '').trim();
+    const generic = ['default', 'sansSerif', 'proportionalSansSerif', 'monospaceSansSerif'].includes(family);
+    style.fontFamily = generic ? 'Inter, sans-serif' : /\s/.test(family) ? `'${family}', sans-serif` : `${family}, sans-serif`;
+  }
+
+  if (attrs.fontSize) {
+    const size = parseFontSize(attrs.fontSize, rootHeight);
+    if (size) style.fontSize = size;
+  }
+
+  const color = parseTTMLColor(attrs.color);
+  if (color) style.color = toHexColor(color);
+
+  const background = parseTTMLColor(attrs.backgroundColor);
+  if (background) style.backgroundColor = toCssColor(background);
+
+  if (attrs.opacity) {
+    const opacity = parseFloat(attrs.opacity);
+    if (!isNaN(opacity)) style.opacity = opacity;
+  }
+
+  if (attrs.textOutline && attrs.textOutline !== 'none') style.textShadow = TEXT_SHADOW_PRESETS.outline;
+  else if (attrs.textShadow && attrs.textShadow !== 'none') style.textShadow = TEXT_SHADOW_PRESETS.drop;
+  else style.textShadow = TEXT_SHADOW_PRESETS.none;
+
+  // Bottom edge of a percentage region becomes our distance from the bottom
+  const origin = (getAttr(region, 'origin') || '').match(/^[\d.]+%\s+([\d.]+)%$/);
+  const extent = (getAttr(region, 'extent') || '').match(/^[\d.]+%\s+([\d.]+)%$/);
+  if (origin && extent) {
+    const bottom = parseFloat(origin[1]) + parseFloat(extent[1]);
+    style.position = Math.min(90, Math.max(0, Math.round(100 - bottom)));
+  }
+
+  return style;
+};
+
+export const parseTTML = (content: string): TTMLParseResult => {
+  const doc = new DOMParser().parseFromString(content.replace(/^\uFEFF/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid TTML document.');
+  }
+
+  const tt = byLocalName(doc, 'tt')[0];
+  if (!tt) throw new Error('Invalid TTML document.');
+
+  const params: TimingParameters = {
+    frameRate: parseFloat(getAttr(tt, 'frameRate') || '') || DEFAULT_FRAME_RATE,
+    tickRate: parseFloat(getAttr(tt, 'tickRate') || '') || DEFAULT_TICK_RATE,
+  };
+  const rootExtent = (getAttr(tt, 'extent') || '').match(/^(\d+)px\s+(\d+)px$/);
+  const rootHeight = rootExtent ? parseInt(rootExtent[2], 10) : null;
+
+  const styles: Record<string, Element> = {};
+  byLocalName(doc, 'style').forEach((el) => {
+    const id = getAttr(el, 'id');
+    if (id) styles[id] = el;
+  });
+  const regions: Record<string, Element> = {};
+  byLocalName(doc, 'region').forEach((el) => {
+    const id = getAttr(el, 'id');
+    if (id) regions[id] = el;
+  });
+
+  const cues: SubtitleCue[] = [];
+  const paragraphs = byLocalName(doc, 'p');
+  paragraphs.forEach((p) => {
+    const begin = getAttr(p, 'begin');
+    if (!begin) return;
+
+    const offset = parentOffset(p, params);
+    const startTime = offset + parseTTMLTime(begin, params);
+    const end = getAttr(p, 'end');
+    const dur = getAttr(p, 'dur');
+    const endTime = end
+      ? offset + parseTTMLTime(end, params)
+      : startTime + (dur ? parseTTMLTime(dur, params) : 0);
+
+    const text = paragraphText(p)
+      .split('\n')
+      .map(line => line.trim())
+      .join('\n')
+      .trim();
+    if (!text) return;
+
+    cues.push({ id: createCueId(), startTime, endTime, text });
+  });
+
+  // Style that applies to the first paragraph, walking body → div → p → span
+  const firstP = paragraphs[0];
+  const chain: Element[] = [];
+  for (let el: Element | null = firstP || null; el && el.localName !== 'tt'; el = el.parentElement) {
+    chain.unshift(el);
+  }
+  const firstSpan = firstP ? byLocalName(firstP, 'span')[0] : undefined;
+  if (firstSpan) chain.push(firstSpan);
+
+  const attrs: Record<string, string> = {};
+  chain.forEach(el => collectStyling(el, styles, attrs));
+
+  const regionId = chain.map(el => getAttr(el, 'region')).filter(Boolean).pop();
+  const region = regionId ? regions[regionId] : Object.values(regions)[0] || null;
+  if (region) collectStyling(region, styles, attrs);
+
+  const hasStyling = Object.keys(attrs).length > 0 || !!region;
+
+  return {
+    cues: cues.sort((a, b) => a.startTime - b.startTime),
+    style: hasStyling ? mapTTMLStyle(attrs, region, rootHeight) : null,
+  };
+};
+
+export const generateTTML = (
+  cues: SubtitleCue[],
+  style: SubtitleStyle,
+  language: string = 'en',
+  title: string = 'AutoSub AI'
+): string => {
+  const cellHeight = REFERENCE_HEIGHT / CELL_ROWS;
+  const fontSize = Math.round((style.fontSize / cellHeight) * 100) / 100;
+  const fontFamily = style.fontFamily.split(',')[0].replace(/['"]/g, '').trim();
+  const color = parseCssColor(style.color) || { r: 255, g: 255, b: 255, a: 1 };
+  const background = parseCssColor(style.backgroundColor) || { r: 0, g: 0, b: 0, a: 0 };
+  const shadowKind = getTextShadowKind(style.textShadow);
+
+  // IMSC1 text profile has no text-shadow, so glow and drop shadow fall back to an outline
+  const outline = shadowKind === 'none' ? '' : ` tts:textOutline="#000000 ${shadowKind === 'outline' ? '0.05c' : '0.08c'}"`;
+  const regionHeight = 100 - style.position;
+
+  const paragraphs = cues.map((cue) => {
+    const lines = cue.text.split('\n').map(escapeXML).join('<br/>');
+    return `      <p begin="${formatTTMLTime(cue.startTime)}" end="${formatTTMLTime(cue.endTime)}"><span style="s2">${lines}</span></p>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tt xmlns="${TTML_NS}" xmlns:tts="${TTML_NS}#styling" xmlns:ttp="${TTML_NS}#parameter" xmlns:ttm="${TTML_NS}#metadata" ttp:profile="${IMSC1_TEXT_PROFILE}" ttp:timeBase="media" xml:lang="${escapeXML(language)}">`,
+    '  <head>',
+    '    <metadata>',
+    `      <ttm:title>${escapeXML(title)}</ttm:title>`,
+    '    </metadata>',
+    '    <styling>',
+    `      <style xml:id="s1" tts:fontFamily="${escapeXML(fontFamily)}, proportionalSansSerif" tts:fontSize="${fontSize}c" tts:color="${toHexAlphaColor(color)}" tts:textAlign="center" tts:lineHeight="125%"${outline}/>`,
+    `      <style xml:id="s2" tts:backgroundColor="${toHexAlphaColor(background)}"/>`,
+    '    </styling>',
+    '    <layout>',
+    `      <region xml:id="r1" tts:origin="10% 0%" tts:extent="80% ${regionHeight}%" tts:displayAlign="after" tts:opacity="${style.opacity}"/>`,
+    '    </layout>',
+    '  </head>',
+    '  <body style="s1" region="r1">',
+    '    <div>',
+    ...paragraphs,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+};
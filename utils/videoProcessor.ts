@@ -1,17 +1,172 @@
-import { SubtitleCue, SubtitleStyle } from '../types';
+import { AspectRatio, ExportContainer, ExportSettings, ReframeSettings, SubtitleCue, SubtitleStyle } from '../types';
+import { SecondarySubtitles, createSubtitleRenderer } from './subtitleRenderer';
+import { ENCODER_CODECS, EXPORT_AUDIO_BITRATE, FALLBACK_FRAME_RATE, RECORDER_TYPES, exportDimensions } from './exportSettings';
+import { focusAt, reframeSize, videoPlacement } from './reframe';
 
+// The aspect ratio chosen for the player, and how the video is reframed to it
+export interface VideoFraming {
+  aspectRatio: AspectRatio;
+  reframe: ReframeSettings;
+}
+
+// Frame counts are only known on the WebCodecs path; real-time recording reports a percentage of playback
+export interface BurnProgress {
+  percent: number;
+  framesDone?: number;
+  totalFrames?: number;
+}
+
+// What the page sends to the burn worker, and what comes back
+export interface BurnWorkerRequest {
+  file: File;
+  cues: SubtitleCue[];
+  style: SubtitleStyle;
+  settings: ExportSettings;
+  framing: VideoFraming;
+  secondary?: SecondarySubtitles;
+}
+
+export type BurnWorkerMessage =
+  | { type: 'progress'; framesDone: number; totalFrames: number }
+  | { type: 'done'; blob: Blob }
+  | { type: 'error'; message: string };
+
+type Canvas2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Output size for a source: reframed to the aspect ratio, then scaled to the export resolution
+export const outputDimensions = (sourceWidth: number, sourceHeight: number, framing: VideoFraming, settings: ExportSettings) => {
+  const framed = reframeSize(sourceWidth, sourceHeight, framing.aspectRatio, framing.reframe.mode);
+  return exportDimensions(framed.width, framed.height, settings.resolution);
+};
+
+// Draws one upright video frame reframed into the whole canvas. `rotation` turns frames that are stored
+// sideways (WebCodecs hands them over as encoded); a <video> element has already applied it.
+export const drawReframedFrame = (
+  ctx: Canvas2D,
+  frame: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  width: number,
+  height: number,
+  framing: VideoFraming,
+  time: number,
+  rotation: number = 0
+) => {
+  const { mode, focus, padFill, padColor } = framing.reframe;
+  const drawInto = (x: number, y: number, w: number, h: number) => {
+    const sideways = rotation === 90 || rotation === 270;
+    ctx.save();
+    ctx.translate(x + w / 2, y + h / 2);
+    ctx.rotate((rotation * Math.PI) / 180);
+    ctx.drawImage(frame, -(sideways ? h : w) / 2, -(sideways ? w : h) / 2, sideways ? h : w, sideways ? w : h);
+    ctx.restore();
+  };
+
+  if (mode === 'pad') {
+    if (padFill === 'blur') {
+      // The frame itself, blown up to cover the canvas and blurred, fills the bars
+      const cover = videoPlacement(sourceWidth, sourceHeight, width, height, 'crop', 0.5);
+      ctx.save();
+      ctx.filter = `blur(${Math.round(Math.max(width, height) / 40)}px)`;
+      drawInto(cover.x, cover.y, cover.width, cover.height);
+      ctx.restore();
+    } else {
+      ctx.fillStyle = padColor;
+      ctx.fillRect(0, 0, width, height);
+    }
+  }
+
+  const placed = videoPlacement(sourceWidth, sourceHeight, width, height, mode, focusAt(focus, time));
+  drawInto(placed.x, placed.y, placed.width, placed.height);
+};
+
+const canBurnWithWebCodecs = (): boolean =>
+  typeof VideoDecoder !== 'undefined' && typeof VideoEncoder !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && typeof Worker !== 'undefined';
+
+// Renders in a worker with WebCodecs when the browser supports it, which runs faster than real time.
+// Anything the worker can't handle (codec, container, missing APIs) falls back to recording playback.
 export const burnSubtitles = async (
   videoFile: File,
   cues: SubtitleCue[],
   style: SubtitleStyle,
-  onProgress: (progress: number) => void
+  settings: ExportSettings,
+  framing: VideoFraming,
+  onProgress: (progress: BurnProgress) => void,
+  secondary?: SecondarySubtitles
+): Promise<Blob> => {
+  if (canBurnWithWebCodecs()) {
+    try {
+      return await burnInWorker({ file: videoFile, cues, style, settings, framing, secondary }, onProgress);
+    } catch (error) {
+      console.warn("WebCodecs burn-in failed, recording playback instead:", error);
+    }
+  }
+  return recordSubtitles(videoFile, cues, style, settings, framing, onProgress, secondary);
+};
+
+// Helper to ask the browser about an encoder configuration. isConfigSupported rejects (e.g. with a TypeError)
+// on a configuration it can't parse, which for our purposes is the same answer.
+export const isEncoderConfigSupported = async (config: VideoEncoderConfig): Promise<boolean> => {
+  try {
+    const { supported } = await VideoEncoder.isConfigSupported(config);
+    return !!supported;
+  } catch (e) {
+    return false;
+  }
+};
+
+// Containers this browser can write, through either render path
+export const getSupportedContainers = async (): Promise<ExportContainer[]> => {
+  const containers = Object.keys(RECORDER_TYPES) as ExportContainer[];
+  const supported = await Promise.all(containers.map(async (container) => {
+    if (typeof MediaRecorder !== 'undefined' && RECORDER_TYPES[container].some(type => MediaRecorder.isTypeSupported(type))) return true;
+    if (!canBurnWithWebCodecs()) return false;
+    for (const { codecString } of ENCODER_CODECS[container]) {
+      if (await isEncoderConfigSupported({ codec: codecString, width: 1920, height: 1080 })) return true;
+    }
+    return false;
+  }));
+  return containers.filter((_, i) => supported[i]);
+};
+
+const burnInWorker = (request: BurnWorkerRequest, onProgress: (progress: BurnProgress) => void): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./burnWorker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<BurnWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        const { framesDone, totalFrames } = message;
+        onProgress({ percent: Math.min(100, Math.round((framesDone / Math.max(1, totalFrames)) * 100)), framesDone, totalFrames });
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') resolve(message.blob);
+      else reject(new Error(message.message));
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "The burn worker crashed."));
+    };
+    worker.postMessage(request);
+  });
+
+// Fallback: plays the video in real time and records a canvas with MediaRecorder. The sound is routed
+// through Web Audio into the recording (not the speakers), so it's captured by the same clock as the frames.
+const recordSubtitles = (
+  videoFile: File,
+  cues: SubtitleCue[],
+  style: SubtitleStyle,
+  settings: ExportSettings,
+  framing: VideoFraming,
+  onProgress: (progress: BurnProgress) => void,
+  secondary?: SecondarySubtitles
 ): Promise<Blob> => {
   return new Promise((resolve, reject) => {
     const video = document.createElement('video');
     video.src = URL.createObjectURL(videoFile);
     video.crossOrigin = "anonymous";
-    video.muted = true;
     
+
     // We need to play the video to get frames
     // We'll use a canvas to draw frames + subtitles
     const canvas = document.createElement('canvas');
@@ -23,25 +178,29 @@ export const burnSubtitles = async (
     }
 
     let recorder: MediaRecorder | null = null;
+    const audio = new AudioContext();
+    const drawSubtitles = createSubtitleRenderer(cues, style, secondary);
 
     video.onloadedmetadata = () => {
-      canvas.width = video.videoWidth;
-      canvas.height = video.videoHeight;
+      const { width, height } = outputDimensions(video.videoWidth, video.videoHeight, framing, settings);
+      canvas.width = width;
+      canvas.height = height;
 
-      // 30 FPS capture stream
-      const stream = canvas.captureStream(30);
+      // Capture stream at a fixed rate (playback has no source rate to follow), plus the video's own sound
+      // (silence for videos without audio)
+      const stream = canvas.captureStream(settings.frameRate === 'source' ? FALLBACK_FRAME_RATE : settings.frameRate);
+      const soundtrack = audio.createMediaStreamDestination();
+      audio.createMediaElementSource(video).connect(soundtrack);
+      soundtrack.stream.getAudioTracks().forEach(track => stream.addTrack(track));
       
-      // Try to use a high-quality codec if available
-      let mimeType = 'video/webm';
-      if (MediaRecorder.isTypeSupported('video/webm; codecs=vp9')) {
-        mimeType = 'video/webm; codecs=vp9';
-      } else if (MediaRecorder.isTypeSupported('video/mp4')) {
-        mimeType = 'video/mp4';
-      }
+      // The chosen container if the recorder can write it, otherwise whatever it can
+      const mimeType = [...RECORDER_TYPES[settings.container], ...Object.values(RECORDER_TYPES).flat()]
+        .find(type => MediaRecorder.isTypeSupported(type)) || '';
 
       recorder = new MediaRecorder(stream, { 
           mimeType, 
-          videoBitsPerSecond: 8000000 // 8 Mbps for decent quality
+          videoBitsPerSecond: settings.videoBitrate,
+          audioBitsPerSecond: EXPORT_AUDIO_BITRATE
       });
       
       const chunks: Blob[] = [];
@@ -51,14 +210,16 @@ export const burnSubtitles = async (
       };
 
       recorder.onstop = () => {
-        const blob = new Blob(chunks, { type: mimeType });
+        // The recorder's own type names the container it actually wrote
+        const blob = new Blob(chunks, { type: recorder?.mimeType || mimeType });
         resolve(blob);
         URL.revokeObjectURL(video.src);
+        audio.close();
       };
 
       // Start recording and playing
       recorder.start();
-      video.play().catch(reject);
+      audio.resume().then(() => video.play()).catch(reject);
       
       const draw = () => {
         if (video.paused || video.ended) {
@@ -67,18 +228,14 @@ export const burnSubtitles = async (
         }
 
         // Draw video frame
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        
-        // Draw Subtitles
         const currentTime = video.currentTime;
-        const activeCue = cues.find(c => currentTime >= c.startTime && currentTime <= c.endTime);
+        drawReframedFrame(ctx, video, video.videoWidth, video.videoHeight, canvas.width, canvas.height, framing, currentTime);
         
-        if (activeCue) {
-            drawSubtitleOnCanvas(ctx, activeCue.text, style, canvas.width, canvas.height);
-        }
+        // Draw Subtitles
+        drawSubtitles(ctx, canvas.width, canvas.height, currentTime);
 
         const progress = Math.min(100, Math.round((currentTime / video.duration) * 100));
-        onProgress(progress);
+        onProgress({ percent: progress });
 
         if (!video.ended) {
             requestAnimationFrame(draw);
@@ -97,132 +254,9 @@ export const burnSubtitles = async (
       }, 100);
     };
 
-    video.onerror = (e) => reject(new Error("Video playback error during processing"));
+    video.onerror = (e) => {
+      audio.close();
+      reject(new Error("Video playback error during processing"));
+    };
   });
 };
-
-function drawSubtitleOnCanvas(
-    ctx: CanvasRenderingContext2D, 
-    text: string, 
-    style: SubtitleStyle, 
-    width: number, 
-    height: number
-) {
-    // Scaling logic: Base reference height is approx 600px (preview window height)
-    // We scale the font size so it looks proportional on the full resolution video
-    const scale = height / 600; 
-    const fontSize = style.fontSize * scale;
-    const fontFamily = style.fontFamily.split(',')[0].replace(/['"]/g, '');
-    
-    ctx.font = `600 ${fontSize}px ${fontFamily}`;
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'bottom';
-    
-    // Position
-    const x = width / 2;
-    const y = height * (1 - style.position / 100);
-
-    // Text Wrapping
-    const maxWidth = width * 0.8; // 80% safe area
-    const lineHeight = fontSize * 1.25;
-    const lines = wrapText(ctx, text, maxWidth);
-
-    // Background Box Calculation
-    if (style.backgroundColor !== 'transparent') {
-        ctx.fillStyle = style.backgroundColor;
-        
-        // Measure widest line
-        let maxLineWidth = 0;
-        lines.forEach(line => {
-            const m = ctx.measureText(line);
-            if (m.width > maxLineWidth) maxLineWidth = m.width;
-        });
-
-        const paddingX = fontSize * 0.6;
-        const paddingY = fontSize * 0.3;
-        const boxWidth = maxLineWidth + (paddingX * 2);
-        const boxHeight = (lines.length * lineHeight) + (paddingY * 2);
-        
-        // Box position (centered horizontally, bottom anchored at y)
-        // Since y is the bottom baseline of the last line, we need to adjust
-        // Top of box = y - (lines.length - 1)*lineHeight - fontSize (approx ascender) - padding
-        
-        // Simpler approach: Calculate total text block height
-        const totalTextHeight = lines.length * lineHeight;
-        
-        // Center X
-        const boxX = x - (boxWidth / 2);
-        // Bottom Y is `y` + paddingY (because baseline is bottom)
-        // Actually baseline bottom means text sits ON y.
-        // Let's shift box to wrap nicely.
-        const boxBottom = y + (fontSize * 0.2); // slight descent allowance
-        const boxTop = boxBottom - boxHeight;
-
-        // Draw rounded rect (simplified as rect)
-        ctx.fillRect(boxX, boxTop, boxWidth, boxHeight);
-    }
-
-    // Shadow & Stroke
-    ctx.shadowColor = 'transparent';
-    ctx.strokeStyle = 'transparent';
-    ctx.shadowBlur = 0;
-    ctx.lineWidth = 0;
-
-    if (style.textShadow.includes('0 0 5px')) {
-        // Glow
-        ctx.shadowColor = 'rgba(0,0,0,1)';
-        ctx.shadowBlur = 10 * scale;
-    } else if (style.textShadow.includes('2px 2px')) {
-        // Drop Shadow
-        ctx.shadowColor = 'rgba(0,0,0,0.8)';
-        ctx.shadowOffsetX = 2 * scale;
-        ctx.shadowOffsetY = 2 * scale;
-        ctx.shadowBlur = 4 * scale;
-    } else if (style.textShadow.includes('-1px -1px')) {
-        // Outline / Stroke
-        ctx.strokeStyle = '#000000';
-        ctx.lineWidth = 3 * scale;
-        ctx.lineJoin = 'round';
-        ctx.lineCap = 'round';
-    }
-
-    // Draw Text Lines
-    ctx.fillStyle = style.color;
-    
-    // Calculate start Y for the first line
-    // y is the position of the last line's baseline (roughly)
-    // No, standard loop usually draws top down.
-    // Let's draw bottom up to match 'y' anchor
-    
-    lines.reverse().forEach((line, index) => {
-        const lineY = y - (index * lineHeight);
-        
-        if (ctx.strokeStyle !== 'transparent' && ctx.lineWidth > 0) {
-             ctx.strokeText(line, x, lineY);
-        }
-        ctx.fillText(line, x, lineY);
-    });
-}
-
-function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
-    const lines = [];
-    const paragraphs = text.split('\n');
-
-    for (const paragraph of paragraphs) {
-        const words = paragraph.split(' ');
-        let currentLine = words[0];
-
-        for (let i = 1; i < words.length; i++) {
-            const word = words[i];
-            const width = ctx.measureText(currentLine + " " + word).width;
-            if (width < maxWidth) {
-                currentLine += " " + word;
-            } else {
-                lines.push(currentLine);
-                currentLine = word;
-            }
-        }
-        lines.push(currentLine);
-    }
-    return lines;
-}
\ No newline at end of file
@@ -0,0 +1,195 @@
+import { SubtitleCue, VTTCueExtras, VTTHeader, WordTiming } from '../types';
+import { createCueId, parseSRTTime } from './srtParser';
+import { tokenizeWords, distributeWords } from './wordTimings';
+
+export interface VTTParseResult {
+  cues: SubtitleCue[];
+  header: VTTHeader;
+}
+
+const TIMING_REGEX = /^(\S+)[ \t]+-->[ \t]+(\S+)(?:[ \t]+(.*))?$/;
+
+// Karaoke timestamp tag inside a cue payload, e.g. <00:00:01.500>
+const TIMESTAMP_TAG_REGEX = /<((?:\d+:)?\d{2}:\d{2}\.\d{3})>/g;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&nbsp;': '\u00A0',
+  '&lrm;': '\u200E',
+  '&rlm;': '\u200F',
+};
+
+// Helper to convert seconds to VTT time string (00:00:00.000). Without `withHours`, times under an hour
+// use the short form (00:00.000) that VTT also allows.
+export const formatVTTTime = (totalSeconds: number, withHours: boolean = true): string => {
+  const totalMs = Math.max(0, Math.round(totalSeconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const milliseconds = totalMs % 1000;
+
+  const pad = (num: number, size: number) => num.toString().padStart(size, '0');
+
+  const clock = `${pad(minutes, 2)}:${pad(seconds, 2)}.${pad(milliseconds, 3)}`;
+  return withHours || hours > 0 ? `${pad(hours, 2)}:${clock}` : clock;
+};
+
+// Helper to tell whether an imported file wrote its timestamps with hours, judged by its first cue;
+// files that left them out keep the short form for edited and new times
+const writesHours = (cues: SubtitleCue[]): boolean => {
+  const imported = cues.find(cue => cue.vtt?.timestamps);
+  return !imported || imported.vtt!.timestamps![0].split(':').length === 3;
+};
+
+// Helper to write a cue time, reusing the file's own timestamp while it still says the same time
+const cueTimestamp = (seconds: number, raw: string | undefined, withHours: boolean): string =>
+  raw !== undefined && Math.abs(parseSRTTime(raw) - seconds) < 0.0005 ? raw : formatVTTTime(seconds, withHours);
+
+// Plain text shown in the editor: tags removed, entities decoded
+export const vttMarkupToText = (markup: string): string =>
+  markup
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity]);
+
+// Speaker of the first voice span, e.g. "<v.loud Esme>Hi" -> "Esme"
+export const vttMarkupSpeaker = (markup: string): string | undefined => {
+  const match = markup.match(/<v(?:\.[^\s>]*)?[ \t]+([^>]+)>/);
+  return match ? match[1].trim() : undefined;
+};
+
+// Word timings from the timestamp tags of a payload; words between two tags share that stretch evenly
+export const vttMarkupWords = (markup: string, cueStart: number, cueEnd: number): WordTiming[] | undefined => {
+  const parts = markup.split(TIMESTAMP_TAG_REGEX);
+  if (parts.length === 1) return undefined;
+
+  // split() with a capture group alternates text and timestamps: [text, time, text, time, text...]
+  const words: WordTiming[] = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const start = i === 0 ? cueStart : parseSRTTime(parts[i - 1]);
+    const end = i + 1 < parts.length ? parseSRTTime(parts[i + 1]) : cueEnd;
+    words.push(...distributeWords(tokenizeWords(vttMarkupToText(parts[i])), start, Math.max(start, end)));
+  }
+  return words;
+};
+
+// Helper to write plain text with a timestamp tag before every word after the first
+const timedPayload = (cue: SubtitleCue, words: WordTiming[], withHours: boolean): string => {
+  let wordIndex = -1;
+  let last = cue.startTime;
+  return cue.text.split(/(\s+)/).map((part) => {
+    if (!part || /^\s+$/.test(part)) return part;
+    wordIndex++;
+    const word = words[wordIndex];
+    const escaped = escapeVTTText(part);
+    // Tags must be strictly increasing and inside the cue
+    if (wordIndex === 0 || !word || word.start <= last || word.start >= cue.endTime) return escaped;
+    last = word.start;
+    return `<${formatVTTTime(word.start, withHours)}>${escaped}`;
+  }).join('');
+};
+
+const sameWordStarts = (a: WordTiming[] | undefined, b: WordTiming[] | undefined): boolean => {
+  if (!a || !b) return a === b;
+  return a.length === b.length && a.every((word, i) => Math.abs(word.start - b[i].start) < 0.001);
+};
+
+const escapeVTTText = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const isHeaderBlock = (block: string) => /^(NOTE|STYLE|REGION)(\s|$)/.test(block);
+
+export const parseVTT = (content: string): VTTParseResult => {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const blocks = normalized.split(/\n[ \t]*\n/).map(b => b.replace(/^\n+|\n+$/g, '')).filter(Boolean);
+
+  const header: VTTHeader = { signature: 'WEBVTT', blocks: [], trailing: [] };
+  const cues: SubtitleCue[] = [];
+  let pendingNotes: string[] = [];
+
+  blocks.forEach((block, index) => {
+    if (index === 0 && block.startsWith('WEBVTT')) {
+      header.signature = block;
+      return;
+    }
+
+    if (isHeaderBlock(block)) {
+      // STYLE/REGION are only valid before the first cue; notes in between travel with the next cue
+      if (cues.length === 0) header.blocks.push(block);
+      else pendingNotes.push(block);
+      return;
+    }
+
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) return;
+
+    const match = lines[timingIndex].trim().match(TIMING_REGEX);
+    if (!match) return;
+
+    const markup = lines.slice(timingIndex + 1).join('\n');
+    const extras: VTTCueExtras = { markup, timestamps: [match[1], match[2]] };
+    if (timingIndex === 1) extras.identifier = lines[0];
+    if (match[3]) extras.settings = match[3].trim();
+    if (pendingNotes.length > 0) {
+      extras.notes = pendingNotes;
+      pendingNotes = [];
+    }
+
+    const speaker = vttMarkupSpeaker(markup);
+    const startTime = parseSRTTime(match[1]);
+    const endTime = parseSRTTime(match[2]);
+    const words = vttMarkupWords(markup, startTime, endTime);
+    cues.push({
+      id: createCueId(),
+      startTime,
+      endTime,
+      text: vttMarkupToText(markup),
+      ...(speaker && { speaker }),
+      ...(words && { words }),
+      vtt: extras,
+    });
+  });
+
+  header.trailing = pendingNotes;
+
+  return { cues, header };
+};
+
+// Imported markup is reused verbatim until the cue text, speaker or word timing is edited; after that
+// we write the plain text with word timestamps, wrapped in a voice span when the cue has a speaker
+const cuePayload = (cue: SubtitleCue, withHours: boolean): string => {
+  const markup = cue.vtt?.markup;
+  if (
+    markup !== undefined &&
+    vttMarkupToText(markup) === cue.text &&
+    vttMarkupSpeaker(markup) === cue.speaker &&
+    sameWordStarts(vttMarkupWords(markup, cue.startTime, cue.endTime), cue.words)
+  ) {
+    return markup;
+  }
+  const text = cue.words ? timedPayload(cue, cue.words, withHours) : escapeVTTText(cue.text);
+  return cue.speaker ? `<v ${escapeVTTText(cue.speaker)}>${text}` : text;
+};
+
+export const generateVTT = (cues: SubtitleCue[], header?: VTTHeader | null): string => {
+  const blocks: string[] = [header?.signature || 'WEBVTT', ...(header?.blocks || [])];
+  const withHours = writesHours(cues);
+
+  cues.forEach((cue) => {
+    if (cue.vtt?.notes) blocks.push(...cue.vtt.notes);
+
+    const lines: string[] = [];
+    if (cue.vtt?.identifier) lines.push(cue.vtt.identifier);
+    const settings = cue.vtt?.settings ? ` ${cue.vtt.settings}` : '';
+    const [rawStart, rawEnd] = cue.vtt?.timestamps || [];
+    lines.push(`${cueTimestamp(cue.startTime, rawStart, withHours)} --> ${cueTimestamp(cue.endTime, rawEnd, withHours)}${settings}`);
+    lines.push(cuePayload(cue, withHours));
+    blocks.push(lines.join('\n'));
+  });
+
+  if (header?.trailing) blocks.push(...header.trailing);
+
+  return blocks.join('\n\n') + '\n';
+};
@@ -0,0 +1,209 @@
+import {
+  Input, Output, BlobSource, BufferTarget, Mp4OutputFormat, EncodedPacketSink, EncodedVideoPacketSource, EncodedAudioPacketSource,
+  AudioSampleSink, AudioSampleSource, EncodedPacket, InputAudioTrack, OutputFormat, WebMOutputFormat, ALL_FORMATS, getFirstEncodableAudioCodec,
+} from 'mediabunny';
+import { ExportSettings, SubtitleCue, SubtitleStyle } from '../types';
+import { VideoFraming, drawReframedFrame, isEncoderConfigSupported, outputDimensions } from './videoProcessor';
+import { SecondarySubtitles, createSubtitleRenderer } from './subtitleRenderer';
+import { CONTAINER_LABELS, ENCODER_CODECS, EXPORT_AUDIO_BITRATE } from './exportSettings';
+
+const KEYFRAME_INTERVAL = 2; // seconds
+// How far the decoder and encoder may run ahead before demuxing waits; frames hold GPU memory
+const MAX_QUEUE = 8;
+
+// Helper to pick the first encoder configuration for the container that this browser supports at the given size
+const findEncoderConfig = async (settings: ExportSettings, width: number, height: number, framerate: number) => {
+  for (const { codec, codecString } of ENCODER_CODECS[settings.container]) {
+    const config: VideoEncoderConfig = { codec: codecString, width, height, bitrate: settings.videoBitrate, framerate };
+    if (await isEncoderConfigSupported(config)) return { codec, config };
+  }
+  throw new Error(`This browser can't encode ${CONTAINER_LABELS[settings.container]} with WebCodecs.`);
+};
+
+// Helper to wait until a codec queue has room again. A codec that errors closes and never dequeues again,
+// so the wait also ends as soon as `failed` (the burn's failure promise) settles.
+const waitForQueue = (codec: VideoDecoder | VideoEncoder, size: () => number, failed: Promise<never>) => {
+  if (size() <= MAX_QUEUE) return Promise.resolve();
+  let onDequeue = () => {};
+  const roomFreed = new Promise<void>((resolve) => {
+    onDequeue = () => {
+      if (size() <= MAX_QUEUE) resolve();
+    };
+    codec.addEventListener('dequeue', onDequeue);
+  });
+  return Promise.race([roomFreed, failed]).finally(() => codec.removeEventListener('dequeue', onDequeue));
+};
+
+// Helper to add the source's audio to the output. Packets are copied untouched when the container can hold
+// their codec, so timestamps (and sync with the video) stay exactly as in the source; otherwise the audio is
+// decoded and re-encoded. Returns the task that feeds the track, or null when there's no audio to carry.
+const addAudioTrack = async (output: Output, format: OutputFormat, track: InputAudioTrack | null): Promise<(() => Promise<void>) | null> => {
+  if (!track) return null;
+  const decoderConfig = await track.getDecoderConfig();
+
+  if (track.codec && decoderConfig && format.getSupportedAudioCodecs().includes(track.codec)) {
+    const source = new EncodedAudioPacketSource(track.codec);
+    output.addAudioTrack(source);
+    return async () => {
+      let first = true;
+      for await (const packet of new EncodedPacketSink(track).packets()) {
+        await source.add(packet, first ? { decoderConfig } : undefined);
+        first = false;
+      }
+    };
+  }
+
+  const codec = await getFirstEncodableAudioCodec(format.getSupportedAudioCodecs(), {
+    numberOfChannels: track.numberOfChannels,
+    sampleRate: track.sampleRate,
+  });
+  if (!codec || !(await track.canDecode())) {
+    throw new Error("This browser can't carry the video's audio over with WebCodecs.");
+  }
+  const source = new AudioSampleSource({ codec, bitrate: EXPORT_AUDIO_BITRATE });
+  output.addAudioTrack(source);
+  return async () => {
+    for await (const sample of new AudioSampleSink(track).samples()) {
+      await source.add(sample);
+      sample.close();
+    }
+  };
+};
+
+// Burns subtitles without playing the video: packets are demuxed and decoded as fast as the machine allows,
+// each frame is drawn with its subtitles on an OffscreenCanvas, re-encoded and muxed with the source audio.
+// A fixed frame rate drops or repeats source frames to fill its own time grid.
+// Runs inside the burn worker, but needs nothing from it.
+export const burnWithWebCodecs = async (
+  videoFile: File,
+  cues: SubtitleCue[],
+  style: SubtitleStyle,
+  settings: ExportSettings,
+  framing: VideoFraming,
+  onFrame: (framesDone: number, totalFrames: number) => void,
+  secondary?: SecondarySubtitles
+): Promise<Blob> => {
+  const input = new Input({ source: new BlobSource(videoFile), formats: ALL_FORMATS });
+  try {
+    const track = await input.getPrimaryVideoTrack();
+    if (!track) throw new Error("The file has no video track.");
+    const decoderConfig = await track.getDecoderConfig();
+    if (!decoderConfig || !(await track.canDecode())) throw new Error("This browser can't decode the video with WebCodecs.");
+
+    // Rotated phone footage is drawn upright, so subtitles sit along the bottom of what the viewer sees
+    const rotation = track.rotation;
+    const { width, height } = outputDimensions(track.displayWidth, track.displayHeight, framing, settings);
+    const { packetCount, averagePacketRate } = await track.computePacketStats();
+    const sourceRate = averagePacketRate > 0 ? averagePacketRate : 30;
+    const frameRate = settings.frameRate === 'source' ? sourceRate : settings.frameRate;
+    const totalFrames = settings.frameRate === 'source' ? packetCount : Math.round((packetCount / sourceRate) * frameRate);
+    const { codec, config } = await findEncoderConfig(settings, width, height, frameRate);
+
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) throw new Error("Could not get canvas context");
+    const drawSubtitles = createSubtitleRenderer(cues, style, secondary);
+
+    const format = settings.container === 'mp4' ? new Mp4OutputFormat({ fastStart: 'in-memory' }) : new WebMOutputFormat();
+    const output = new Output({ format, target: new BufferTarget() });
+    const source = new EncodedVideoPacketSource(codec);
+    output.addVideoTrack(source, { frameRate });
+    const feedAudio = await addAudioTrack(output, format, await input.getPrimaryAudioTrack());
+    await output.start();
+    let failure: Error | null = null;
+    // Rejects with the first codec, muxer or audio error, so no wait below outlives a failed burn
+    let fail: (error: Error) => void = () => {};
+    const failed = new Promise<never>((_, reject) => {
+      fail = (error) => {
+        failure ??= error;
+        reject(failure);
+      };
+    });
+    // Observed by the waits below; this only keeps a failure between two waits from going unhandled
+    failed.catch(() => undefined);
+    // Fed alongside the video: the muxer interleaves the tracks, so neither may run far ahead of the other
+    const audioDone = feedAudio?.().catch(fail);
+    let writing = Promise.resolve();
+    let framesDone = 0;
+    let nextKeyFrame = 0;
+    // Fixed frame rates: time of the first output frame, and how many have been written since
+    let gridStart: number | null = null;
+
+    const encoder = new VideoEncoder({
+      // Packets must reach the muxer in order, so each write waits for the previous one
+      output: (chunk, meta) => {
+        writing = writing.then(() => source.add(EncodedPacket.fromEncodedChunk(chunk), meta)).catch(fail);
+      },
+      error: fail,
+    });
+
+    // Helper to draw one source frame with the subtitles showing at `time` and send it to the encoder
+    const emit = (frame: VideoFrame, time: number, timestamp: number, duration?: number) => {
+      drawReframedFrame(ctx, frame, track.displayWidth, track.displayHeight, width, height, framing, time, rotation);
+      drawSubtitles(ctx, width, height, time);
+
+      const composed = new VideoFrame(canvas, { timestamp, duration });
+      const keyFrame = time >= nextKeyFrame;
+      if (keyFrame) nextKeyFrame = time + KEYFRAME_INTERVAL;
+      encoder.encode(composed, { keyFrame });
+      composed.close();
+
+      framesDone++;
+      onFrame(framesDone, Math.max(framesDone, totalFrames));
+    };
+
+    const decoder = new VideoDecoder({
+      // Frames come out in presentation order
+      output: (frame) => {
+        // Nothing more to encode into once the burn has failed
+        if (failure) return frame.close();
+        const time = frame.timestamp / 1e6;
+        if (settings.frameRate === 'source') {
+          emit(frame, time, frame.timestamp, frame.duration ?? undefined);
+        } else {
+          // Every grid slot that starts while this frame is on screen shows it
+          const step = 1 / settings.frameRate;
+          const frameEnd = time + (frame.duration ? frame.duration / 1e6 : 1 / sourceRate);
+          if (gridStart === null) gridStart = time;
+          for (let slot = gridStart + framesDone * step; slot < frameEnd; slot = gridStart + framesDone * step) {
+            emit(frame, slot, Math.round(slot * 1e6), Math.round(step * 1e6));
+          }
+        }
+        frame.close();
+      },
+      error: fail,
+    });
+
+    try {
+      encoder.configure(config);
+      decoder.configure(decoderConfig);
+
+      for await (const packet of new EncodedPacketSink(track).packets()) {
+        if (failure) break;
+        decoder.decode(packet.toEncodedVideoChunk());
+        await waitForQueue(decoder, () => decoder.decodeQueueSize, failed);
+        await waitForQueue(encoder, () => encoder.encodeQueueSize, failed);
+      }
+      if (failure) throw failure;
+
+      // Raced against the failure promise too: a flush on a codec that has just errored may never settle
+      await Promise.race([decoder.flush(), failed]);
+      await Promise.race([encoder.flush(), failed]);
+      await Promise.race([writing, failed]);
+      await Promise.race([audioDone, failed]);
+      if (failure) throw failure;
+    } catch (error) {
+      await output.cancel();
+      throw error;
+    } finally {
+      // A codec that errored has closed itself already
+      if (decoder.state !== 'closed') decoder.close();
+      if (encoder.state !== 'closed') encoder.close();
+    }
+    await output.finalize();
+
+    return new Blob([output.target.buffer!], { type: format.mimeType });
+  } finally {
+    input.dispose();
+  }
+};
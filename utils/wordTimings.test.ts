@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleCue } from '../types';
+import { syncCueWords } from './wordTimings';
+
+const CUE: SubtitleCue = {
+  id: 'a',
+  startTime: 10,
+  endTime: 12,
+  text: 'one two three four',
+  words: [
+    { text: 'one', start: 10, end: 10.5 },
+    { text: 'two', start: 10.5, end: 11 },
+    { text: 'three', start: 11, end: 11.5 },
+    { text: 'four', start: 11.5, end: 12 },
+  ],
+};
+
+const spans = (cue: SubtitleCue) => cue.words!.map(word => [word.start, word.end]);
+
+describe('syncCueWords', () => {
+  it('leaves a cue alone when nothing changed', () => {
+    expect(syncCueWords(CUE, CUE)).toBe(CUE);
+    expect(syncCueWords(CUE)).toBe(CUE);
+  });
+
+  it('takes the words along when the cue moves', () => {
+    const moved = syncCueWords({ ...CUE, startTime: 13, endTime: 15 }, CUE);
+    expect(spans(moved)).toEqual([[13, 13.5], [13.5, 14], [14, 14.5], [14.5, 15]]);
+  });
+
+  it('stretches the words over the new span when the cue is resized', () => {
+    const resized = syncCueWords({ ...CUE, startTime: 9, endTime: 13 }, CUE);
+    expect(spans(resized)).toEqual([[9, 10], [10, 11], [11, 12], [12, 13]]);
+  });
+
+  it('clamps only the words a trimmed edge cuts into', () => {
+    const trimmed = syncCueWords({ ...CUE, endTime: 11.2 }, CUE);
+    expect(spans(trimmed)).toEqual([[10, 10.5], [10.5, 11], [11, 11.2], [11.2, 11.2]]);
+  });
+
+  it('keeps the words in place when a single edge is extended', () => {
+    const extended = syncCueWords({ ...CUE, startTime: 9 }, CUE);
+    expect(extended.words).toBe(CUE.words);
+  });
+
+  it('re-spreads edited text after moving the cue', () => {
+    const edited = syncCueWords({ ...CUE, startTime: 20, endTime: 22, text: 'one two three five' }, CUE);
+    expect(edited.words!.map(word => word.text)).toEqual(['one', 'two', 'three', 'five']);
+    expect(spans(edited).slice(0, 3)).toEqual([[20, 20.5], [20.5, 21], [21, 21.5]]);
+    expect(edited.words![3].end).toBe(22);
+  });
+});
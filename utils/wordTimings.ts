@@ -0,0 +1,118 @@
+import { SubtitleCue, WordTiming } from '../types';
+import { roundTime } from './cueTiming';
+
+// Spans shorter than this per word are too tight to re-time into; fall back to the whole cue
+const MIN_WORD_DURATION = 0.05;
+
+export const tokenizeWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+export const wordsMatchText = (words: WordTiming[], text: string): boolean => {
+  const tokens = tokenizeWords(text);
+  return tokens.length === words.length && tokens.every((token, i) => token === words[i].text);
+};
+
+// Helper to spread words over [start, end] in proportion to their length
+export const distributeWords = (tokens: string[], start: number, end: number): WordTiming[] => {
+  const weights = tokens.map(token => token.length + 1);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  let cursor = start;
+  return tokens.map((token, i) => {
+    const wordStart = cursor;
+    cursor = i === tokens.length - 1 ? end : cursor + (end - start) * (weights[i] / total);
+    return { text: token, start: roundTime(wordStart), end: roundTime(cursor) };
+  });
+};
+
+// Helper to fit existing word timings to edited text. Words kept at the start and end of the cue keep
+// their timings; the changed middle is re-spread over the time the replaced words used to cover.
+export const redistributeWords = (words: WordTiming[], text: string, cueStart: number, cueEnd: number): WordTiming[] => {
+  const tokens = tokenizeWords(text);
+  if (tokens.length === 0) return [];
+  if (words.length === 0) return distributeWords(tokens, cueStart, cueEnd);
+
+  // Same word count: only spelling changed, keep every timing
+  if (tokens.length === words.length) return tokens.map((token, i) => ({ ...words[i], text: token }));
+
+  let prefix = 0;
+  while (prefix < tokens.length && prefix < words.length && tokens[prefix] === words[prefix].text) prefix++;
+  let suffix = 0;
+  while (
+    suffix < tokens.length - prefix && suffix < words.length - prefix &&
+    tokens[tokens.length - 1 - suffix] === words[words.length - 1 - suffix].text
+  ) suffix++;
+
+  const oldMiddle = words.slice(prefix, words.length - suffix);
+  const newMiddle = tokens.slice(prefix, tokens.length - suffix);
+  const spanStart = oldMiddle.length > 0 ? oldMiddle[0].start : (prefix > 0 ? words[prefix - 1].end : cueStart);
+  const spanEnd = oldMiddle.length > 0
+    ? oldMiddle[oldMiddle.length - 1].end
+    : (suffix > 0 ? words[words.length - suffix].start : cueEnd);
+
+  if (spanEnd - spanStart < newMiddle.length * MIN_WORD_DURATION) {
+    return distributeWords(tokens, words[0].start, words[words.length - 1].end);
+  }
+
+  return [
+    ...words.slice(0, prefix),
+    ...distributeWords(newMiddle, spanStart, spanEnd),
+    ...words.slice(words.length - suffix),
+  ];
+};
+
+// Helper to keep every word inside its cue after the cue's timing changed
+export const clampWords = (words: WordTiming[], start: number, end: number): WordTiming[] =>
+  words.map(word => ({
+    ...word,
+    start: Math.min(end, Math.max(start, word.start)),
+    end: Math.min(end, Math.max(start, word.end)),
+  }));
+
+// Helper to carry word timings over a change of cue times. A moved cue takes its words along, a resized
+// one stretches them over its new span; when only one edge moved the words stay put (syncCueWords clamps them).
+export const retimeWords = (
+  words: WordTiming[],
+  from: Pick<SubtitleCue, 'startTime' | 'endTime'>,
+  to: Pick<SubtitleCue, 'startTime' | 'endTime'>
+): WordTiming[] => {
+  const startDelta = to.startTime - from.startTime;
+  const endDelta = to.endTime - from.endTime;
+  const same = (a: number, b: number) => Math.abs(a - b) < 0.0005;
+  if (same(startDelta, 0) || same(endDelta, 0)) return words;
+  if (same(startDelta, endDelta)) return mapWordTimes(words, time => roundTime(time + startDelta))!;
+
+  const oldLength = from.endTime - from.startTime;
+  if (oldLength <= 0) return words;
+  const ratio = (to.endTime - to.startTime) / oldLength;
+  return mapWordTimes(words, time => roundTime(to.startTime + (time - from.startTime) * ratio))!;
+};
+
+// Brings a cue's word timings back in line with its text and bounds. Given the cue's times before the edit,
+// its words first move or stretch along with it. Returns the cue itself when nothing changed.
+export const syncCueWords = (cue: SubtitleCue, previous?: Pick<SubtitleCue, 'startTime' | 'endTime'>): SubtitleCue => {
+  if (!cue.words) return cue;
+
+  let words = previous ? retimeWords(cue.words, previous, cue) : cue.words;
+  if (!wordsMatchText(words, cue.text)) words = redistributeWords(words, cue.text, cue.startTime, cue.endTime);
+  const outside = words.some(w => w.start < cue.startTime || w.end > cue.endTime);
+  if (outside) words = clampWords(words, cue.startTime, cue.endTime);
+
+  if (words === cue.words) return cue;
+  if (words.length === 0) {
+    const { words: _, ...rest } = cue;
+    return rest;
+  }
+  return { ...cue, words };
+};
+
+// Helper to move word timings along with their cue (chunk offsets, resync)
+export const mapWordTimes = (words: WordTiming[] | undefined, map: (time: number) => number): WordTiming[] | undefined =>
+  words?.map(word => ({ ...word, start: map(word.start), end: map(word.end) }));
+
+// The word being spoken at `time`: the last one that has started
+export const getActiveWordIndex = (words: WordTiming[], time: number): number => {
+  let active = -1;
+  words.forEach((word, i) => {
+    if (word.start <= time) active = i;
+  });
+  return active;
+};